@@ -0,0 +1,112 @@
+// Prints an event's standings without opening the app.
+//
+//   npm run score -- event.json                 # exported or saved event JSON
+//   npm run score -- "https://…/#k=v2.z.…"      # a share link (or just the key)
+//   npm run score -- event.json --format json   # table (default) | json | csv
+//   cat event.json | npm run score -- -
+
+import { readFile } from "node:fs/promises";
+import { computeStandings, readEvent, type EventStandings } from "../src/engine";
+import { EventKeyError, extractKeyFromUrl, readEventKey } from "../src/eventKey";
+import { SchemaError } from "../src/schema";
+import { resultsToCsv } from "../src/csv";
+import type { State } from "../src/types";
+
+type Format = "table" | "json" | "csv";
+const FORMATS: Format[] = ["table", "json", "csv"];
+
+const USAGE = `Usage: npm run score -- <event.json | share link | share key | -> [--format table|json|csv]`;
+
+async function readStdin(): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+// A file path, "-" for stdin, a share link or a bare share key
+async function loadEvent(source: string): Promise<State> {
+  const key = extractKeyFromUrl(source) ?? (/^v\d+\./.test(source) ? source : null);
+  if (key) return readEvent(await readEventKey(key));
+  const text = source === "-" ? await readStdin() : await readFile(source, "utf8");
+  return readEvent(JSON.parse(text));
+}
+
+function textTable(head: string[], rows: string[][], right: number[]): string {
+  const widths = head.map((h, i) => Math.max(h.length, ...rows.map((r) => r[i].length)));
+  const line = (cells: string[]) =>
+    cells.map((c, i) => (right.includes(i) ? c.padStart(widths[i]) : c.padEnd(widths[i]))).join("  ").trimEnd();
+  return [line(head), widths.map((w) => "-".repeat(w)).join("  "), ...rows.map(line)].join("\n");
+}
+
+function formatTable(s: EventStandings): string {
+  const sections = s.rankings.map((r) =>
+    [
+      r.name,
+      textTable(
+        ["Place", "Athlete", r.scoreLabel, "Points"],
+        r.entries.map((e) => [e.placeText, e.name, e.scoreText, e.points.toFixed(1)]),
+        [2, 3]
+      ),
+    ].join("\n")
+  );
+  const overall = textTable(
+    ["Place", "Athlete", ...s.rankings.map((r) => r.name), "Total"],
+    s.standings.map((st) => [
+      st.placeText,
+      st.name,
+      ...s.rankings.map((r) => (st.breakdown[r.id] ?? 0).toFixed(1)),
+      st.totalPoints.toFixed(1),
+    ]),
+    s.rankings.map((_, i) => i + 2).concat(s.rankings.length + 2)
+  );
+  return [s.title, "", ...sections.flatMap((x) => [x, ""]), "Overall", overall].join("\n");
+}
+
+async function main(args: string[]): Promise<number> {
+  let format: Format = "table";
+  const sources: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    if (a === "--help" || a === "-h") {
+      console.log(USAGE);
+      return 0;
+    }
+    if (a === "--format" || a.startsWith("--format=")) {
+      const value = a.includes("=") ? a.slice("--format=".length) : args[++i];
+      if (!FORMATS.includes(value as Format)) {
+        console.error(`Unknown format "${value}". ${USAGE}`);
+        return 2;
+      }
+      format = value as Format;
+    } else sources.push(a);
+  }
+  if (sources.length !== 1) {
+    console.error(USAGE);
+    return 2;
+  }
+
+  let state: State;
+  try {
+    state = await loadEvent(sources[0]);
+  } catch (e) {
+    const reason =
+      e instanceof EventKeyError
+        ? e.message
+        : e instanceof SchemaError
+          ? e.newer
+            ? `The event was ${e.message}.`
+            : `It isn't a Liftwin event${e.message === "not an event" ? "" : ` (${e.message})`}.`
+          : e instanceof SyntaxError
+            ? "The file isn't valid JSON."
+            : (e as Error).message;
+    console.error(`Couldn't read the event. ${reason}`);
+    return 1;
+  }
+
+  if (format === "csv") process.stdout.write(resultsToCsv(state) + "\n");
+  else if (format === "json") process.stdout.write(JSON.stringify(computeStandings(state), null, 2) + "\n");
+  else process.stdout.write(formatTable(computeStandings(state)) + "\n");
+  return 0;
+}
+
+main(process.argv.slice(2)).then((code) => process.exit(code));
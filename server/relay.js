@@ -0,0 +1,137 @@
+// Liftwin sync relay: forwards every message a client sends to the other clients in the same
+// room (one room per event, ?room=<eid>). It keeps no state and needs no dependencies.
+//
+//   npm run relay            # listens on :8787
+//   PORT=9000 npm run relay
+//
+// Then enter ws://<this machine's address>:8787 under "Live sync" in an event.
+
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+
+const PORT = Number(process.env.PORT ?? 8787);
+const MAX_MESSAGE = 4 * 1024 * 1024; // bytes; a large event snapshot is well under this
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const rooms = new Map(); // room -> Set<socket>
+
+// ===== Framing (RFC 6455, text frames only) =====
+
+function frame(opcode, payload = Buffer.alloc(0)) {
+  const len = payload.length;
+  const head = len < 126 ? Buffer.alloc(2) : len < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  head[0] = 0x80 | opcode;
+  if (len < 126) head[1] = len;
+  else if (len < 65536) {
+    head[1] = 126;
+    head.writeUInt16BE(len, 2);
+  } else {
+    head[1] = 127;
+    head.writeBigUInt64BE(BigInt(len), 2);
+  }
+  return Buffer.concat([head, payload]);
+}
+
+// Pulls complete frames off the front of `buf`; returns what's left over
+function readFrames(buf, onFrame) {
+  while (buf.length >= 2) {
+    const fin = (buf[0] & 0x80) !== 0;
+    const opcode = buf[0] & 0x0f;
+    const masked = (buf[1] & 0x80) !== 0;
+    let len = buf[1] & 0x7f;
+    let offset = 2;
+    if (len === 126) {
+      if (buf.length < 4) break;
+      len = buf.readUInt16BE(2);
+      offset = 4;
+    } else if (len === 127) {
+      if (buf.length < 10) break;
+      len = Number(buf.readBigUInt64BE(2));
+      offset = 10;
+    }
+    if (len > MAX_MESSAGE) throw new Error("frame too large");
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buf.length < offset + len) break;
+    const payload = Buffer.from(buf.subarray(offset, offset + len));
+    if (masked) for (let i = 0; i < len; i++) payload[i] ^= buf[maskOffset + (i % 4)];
+    onFrame(fin, opcode, payload);
+    buf = buf.subarray(offset + len);
+  }
+  return buf;
+}
+
+// ===== Rooms =====
+
+function join(room, socket) {
+  if (!rooms.has(room)) rooms.set(room, new Set());
+  const members = rooms.get(room);
+  members.add(socket);
+
+  let pending = Buffer.alloc(0);
+  let fragments = [];
+  let fragmentBytes = 0; // MAX_MESSAGE applies to the whole message, not just each frame
+  let alive = true;
+
+  const leave = () => {
+    clearInterval(ping);
+    members.delete(socket);
+    if (members.size === 0) rooms.delete(room);
+  };
+  const ping = setInterval(() => {
+    if (!alive) return socket.destroy();
+    alive = false;
+    socket.write(frame(0x9));
+  }, 30_000);
+
+  socket.on("data", (chunk) => {
+    try {
+      pending = readFrames(Buffer.concat([pending, chunk]), (fin, opcode, payload) => {
+        if (opcode === 0x8) {
+          socket.end(frame(0x8));
+          return;
+        }
+        if (opcode === 0x9) return socket.write(frame(0xa, payload));
+        if (opcode === 0xa) {
+          alive = true;
+          return;
+        }
+        if (opcode === 0x1 || opcode === 0x0) {
+          fragmentBytes += payload.length;
+          if (fragmentBytes > MAX_MESSAGE) throw new Error("message too large");
+          fragments.push(payload);
+          if (!fin) return;
+          const message = frame(0x1, Buffer.concat(fragments));
+          fragments = [];
+          fragmentBytes = 0;
+          members.forEach((peer) => peer !== socket && peer.writable && peer.write(message));
+        }
+      });
+    } catch {
+      socket.destroy();
+    }
+  });
+  socket.on("close", leave);
+  socket.on("error", leave);
+}
+
+const server = createServer((_req, res) => {
+  res.writeHead(200, { "content-type": "text/plain" });
+  res.end(`Liftwin sync relay: ${rooms.size} active event(s)\n`);
+});
+
+server.on("upgrade", (req, socket) => {
+  const room = new URL(req.url ?? "/", "http://relay").searchParams.get("room");
+  const key = req.headers["sec-websocket-key"];
+  if (!room || !key || req.headers.upgrade?.toLowerCase() !== "websocket") {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+  const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+  socket.write(
+    ["HTTP/1.1 101 Switching Protocols", "Upgrade: websocket", "Connection: Upgrade", `Sec-WebSocket-Accept: ${accept}`, "", ""].join("\r\n")
+  );
+  join(room, socket);
+});
+
+server.listen(PORT, () => console.log(`Liftwin relay listening on :${PORT}`));
@@ -1,27 +1,58 @@
 import { useEffect, useRef, useState } from "react";
-import type { EID, EventMeta, State } from "./types";
+import type { EID, EventMeta, State, WeightUnit } from "./types";
 import EventManager from "./EventManager";
 import EventView from "./EventView";
+import SeasonView from "./SeasonView";
+import RosterView from "./RosterView";
+import AthleteHistory from "./AthleteHistory";
+import MergeView from "./MergeView";
+import SaveStatus from "./SaveStatus";
+import DisplayView from "./DisplayView";
 import {
+  clearQuarantine,
   getLastOpen,
+  getSaveStatus,
+  getSyncUrl,
   getTheme,
+  getUnits,
   loadEvent,
+  loadHistory,
   loadIndex,
+  loadQuarantine,
+  loadRoster,
+  loadSeasons,
   saveEvent,
+  saveHistory,
   saveIndex,
+  saveRoster,
+  saveSeasons,
   setLastOpen,
+  setSyncUrl,
   setTheme,
+  setUnits,
+  subscribeRemoteWrites,
   deleteEvent as rmEvent,
+  eventKey as storageKey,
 } from "./storage";
-import { makeEventKey, readEventKey } from "./eventKey";
+import { EventKeyError, makeEventKey, readEventKey } from "./eventKey";
+import { DEFAULT_DISCIPLINES } from "./disciplines";
+import { SchemaError, repairState, upgradeState } from "./schema";
+import { recordEdit, redo, startSession, undo, type EditSession } from "./undo";
+import { diffEvents, isEmptyDiff } from "./merge";
+import { applyOps, createSyncSession, type SyncSession, type SyncStatus } from "./sync";
+import { broadcastChannelTransport, webSocketTransport } from "./syncTransport";
+import { parseRoute, routeHash, type EventSection, type Route } from "./routes";
+import { backupFilename, createBackup, planRestore, type ConflictChoice, type RestorePreview } from "./backup";
+import { downloadText } from "./csv";
 
 const defaultState: State = {
   title: "Monthly Meet",
   pointsPreset: "F1",
   pointsCustom: [10, 7, 5, 3, 2, 1],
+  disciplines: DEFAULT_DISCIPLINES,
   athletes: [
-    { id: uid(), name: "Alex", sex: "M", age: 30, bodyweight: 85, squat: null, bench: null, deadlift: null, runTime: "" },
-    { id: uid(), name: "Blake", sex: "F", age: 28, bodyweight: 62, squat: null, bench: null, deadlift: null, runTime: "" },
+    { id: uid(), name: "Alex", sex: "M", age: 30, bodyweight: 85, squat: null, bench: null, deadlift: null, results: {} },
+    { id: uid(), name: "Blake", sex: "F", age: 28, bodyweight: 62, squat: null, bench: null, deadlift: null, results: {} },
   ],
 };
 
@@ -32,14 +63,28 @@ function newEid(): EID {
   return crypto.randomUUID();
 }
 
-type Mode = "manager" | "event";
+function isTextField(el: EventTarget | null): boolean {
+  if (el instanceof HTMLTextAreaElement) return true;
+  if (el instanceof HTMLElement && el.isContentEditable) return true;
+  return el instanceof HTMLInputElement && !["checkbox", "radio", "button", "submit", "reset", "range", "color", "file"].includes(el.type);
+}
+
+type Mode = "manager" | "event" | "season" | "roster" | "history" | "merge" | "display";
 
 export default function App() {
   const [theme, setThemeState] = useState<"light" | "dark">(getTheme());
+  const [units, setUnitsState] = useState<WeightUnit>(getUnits());
   const [mode, setMode] = useState<Mode>("manager");
   const [index, setIndex] = useState<EventMeta[]>([]);
   const [currentEid, setCurrentEid] = useState<EID | null>(null);
-  const [currentState, setCurrentState] = useState<State | null>(null);
+  const [session, setSession] = useState<EditSession | null>(null);
+  const currentState = session?.state ?? null;
+  const [quarantined, setQuarantined] = useState(loadQuarantine);
+  const [pendingMerge, setPendingMerge] = useState<{ eid: EID; local: State; incoming: State } | null>(null);
+  const [historyOf, setHistoryOf] = useState<{ identity: string; name: string; back: Mode } | null>(null);
+  const [display, setDisplay] = useState<{ eid: EID; state: State } | null>(null);
+  const [section, setSection] = useState<EventSection | undefined>(undefined);
+  const [booted, setBooted] = useState(false);
 
   // Apply theme to <html>
   useEffect(() => {
@@ -51,40 +96,151 @@ export default function App() {
     setTheme(t);
   }
 
-  // Boot: load index, import from #k if present, else open last
-  useEffect(() => {
+  function applyUnits(u: WeightUnit) {
+    setUnitsState(u);
+    setUnits(u);
+  }
+
+  // Boot: load index, then the screen in the URL, a #k share link, or the last open event.
+  // Kept in a ref so the mount effect runs it once, with the first render's handlers.
+  const boot = useRef(() => {
     const list = loadIndex();
     setIndex(list);
+    setQuarantined(loadQuarantine());
+    setBooted(true);
 
-    const importFromHash = () => {
-      const m = location.hash.match(/[#&]k=([^&]+)/);
-      if (!m) return false;
-      const key = decodeURIComponent(m[1]);
-      const payload = readEventKey<{ eid?: EID; state?: State }>(key);
-      if (!payload?.state) return false;
-      const imported = addOrForkEvent(payload);
-      // Clean hash, open event
-      history.replaceState({}, "", location.pathname + location.search);
-      openEvent(imported.eid);
-      return true;
-    };
+    const route = parseRoute(location.hash);
+    if (route) showRoute(route);
+    else if (!openShareLink(location.hash)) openLast();
+  });
+  useEffect(() => boot.current(), []);
+
+  function openLast() {
+    const last = getLastOpen();
+    const st = last ? loadEvent(last) : null;
+    if (last && st) openEvent(last, st);
+    else setMode("manager");
+  }
+
+  // Imports the event in a #k=… hash; false if there is none
+  function openShareLink(hash: string): boolean {
+    const m = hash.match(/[#&]k=([^&]+)/);
+    if (!m) return false;
+    // Clean hash either way so a bad link doesn't fail again on reload
+    history.replaceState({}, "", location.pathname + location.search);
+    readEventKey<{ eid?: EID; state?: unknown; schema?: number }>(decodeURIComponent(m[1]))
+      .then((payload) => {
+        if (!payload?.state) throw new EventKeyError("corrupt");
+        // Keys made before versioning carry no schema number
+        const state = upgradeState({ schema: payload.schema ?? 1, data: payload.state });
+        importSharedEvent({ eid: payload.eid, state });
+      })
+      .catch((e) => {
+        const reason =
+          e instanceof EventKeyError ? e.message : e instanceof SchemaError ? `The event was ${e.message}.` : "The link couldn't be read.";
+        alert(`Couldn't open the shared event. ${reason}`);
+        openLast();
+      });
+    return true;
+  }
+
+  // ---------- Routing ----------
+  // The URL follows the screen: every screen change adds a history entry, so back/forward work.
+  // Changes made while restoring a history entry replace it instead.
+  function showRoute(route: Route) {
+    switch (route.name) {
+      case "manager":
+      case "season":
+      case "roster":
+        setMode(route.name);
+        break;
+      case "history":
+        setHistoryOf({ identity: route.identity, name: route.label, back: "manager" });
+        setMode("history");
+        break;
+      case "display": {
+        const st = loadEvent(route.eid);
+        if (st) {
+          setDisplay({ eid: route.eid, state: st });
+          setMode("display");
+        } else setMode("manager");
+        break;
+      }
+      case "event":
+        // Back to the event that's still open: keep its session (and undo stack) unless something
+        // else rewrote the stored copy meanwhile, e.g. the roster's "Update events"
+        if (route.eid === currentEid && session && !storedChanged(route.eid)) setMode("event");
+        else openEvent(route.eid);
+        setSection(route.section);
+        break;
+    }
+  }
+
+  const route: Route | null =
+    mode === "event" && currentEid
+      ? { name: "event", eid: currentEid, section }
+      : mode === "display" && display
+        ? { name: "display", eid: display.eid }
+        : mode === "history" && historyOf
+          ? { name: "history", identity: historyOf.identity, label: historyOf.name }
+          : mode === "manager" || mode === "season" || mode === "roster"
+            ? { name: mode }
+            : null; // merge review isn't a place to come back to
+  const hash = route ? routeHash(route) : null;
 
-    const didImport = importFromHash();
-    if (!didImport) {
-      const last = getLastOpen();
-      if (last && loadEvent(last)) openEvent(last);
-      else setMode("manager");
+  const replaceNext = useRef(true); // the first sync after boot rewrites the entry we landed on
+  useEffect(() => {
+    if (!booted || !hash) return;
+    if (location.hash !== hash) {
+      const url = location.pathname + location.search + hash;
+      if (replaceNext.current) history.replaceState({}, "", url);
+      else history.pushState({}, "", url);
     }
+    replaceNext.current = false;
+  }, [booted, hash]);
+
+  // Back/forward, edited URLs and share links pasted into the address bar
+  useEffect(() => {
+    const onPop = () => {
+      const next = parseRoute(location.hash);
+      replaceNext.current = true;
+      if (next) showRoute(next);
+      else openShareLink(location.hash);
+    };
+    window.addEventListener("popstate", onPop);
+    return () => window.removeEventListener("popstate", onPop);
+  });
+
+  // Events created, renamed or deleted in another tab
+  useEffect(() => {
+    return subscribeRemoteWrites(() => {
+      setIndex(loadIndex());
+      setQuarantined(loadQuarantine());
+    });
+  }, []);
+
+  // Warn before closing the tab while changes haven't reached storage
+  useEffect(() => {
+    const onUnload = (e: BeforeUnloadEvent) => {
+      const st = getSaveStatus();
+      if (st.pending || st.error) e.preventDefault();
+    };
+    window.addEventListener("beforeunload", onUnload);
+    return () => window.removeEventListener("beforeunload", onUnload);
   }, []);
 
   // Debounced autosave when editing an event
   const saveTimer = useRef<number | null>(null);
+  const lastSaved = useRef<{ eid: EID; state: State } | null>(null); // what this tab last wrote or read
   useEffect(() => {
-    if (!currentEid || !currentState) return;
+    if (!currentEid || !session) return;
+    const currentState = session.state;
     if (saveTimer.current) window.clearTimeout(saveTimer.current);
     saveTimer.current = window.setTimeout(() => {
-      // Save state
+      // Save state and its undo history; success or failure shows up in <SaveStatus />
       saveEvent(currentEid, currentState);
+      saveHistory(currentEid, session.history);
+      lastSaved.current = { eid: currentEid, state: currentState };
       // Update index meta
       setIndex((list) => {
         const now = Date.now();
@@ -102,37 +258,150 @@ export default function App() {
     return () => {
       if (saveTimer.current) window.clearTimeout(saveTimer.current);
     };
-  }, [currentEid, currentState]);
+  }, [currentEid, session]);
 
-  // Wrapper setter to satisfy EventView (non-null State)
+  // Wrapper setter to satisfy EventView (non-null State); every edit lands on the undo stack
   const setEventState = (up: State | ((prev: State) => State)) => {
-    setCurrentState((prev) => {
-      const safePrev = prev as State;
-      return typeof up === "function" ? (up as (p: State) => State)(safePrev) : up;
+    setSession((prev) => {
+      const safePrev = prev as EditSession;
+      const next = typeof up === "function" ? (up as (p: State) => State)(safePrev.state) : up;
+      return recordEdit(safePrev, next, Date.now());
     });
   };
+  const undoEdit = () => setSession((prev) => prev && undo(prev));
+  const redoEdit = () => setSession((prev) => prev && redo(prev));
+
+  // ---------- Live sync ----------
+  // One sync session per open event: other tabs always, other devices once a relay is connected.
+  const syncRef = useRef<SyncSession | null>(null);
+  const syncedState = useRef<State | null>(null); // last state other copies know about
+  const remoteStates = useRef(new WeakSet<State>()); // states produced by applying remote ops
+  const latestState = useRef<State | null>(null);
+  const [syncStatus, setSyncStatus] = useState<SyncStatus>({ transports: {}, peers: 0 });
+  const [relay, setRelay] = useState<{ url: string; on: boolean }>(() => ({ url: getSyncUrl(), on: false }));
+  const [peerCopy, setPeerCopy] = useState<State | null>(null);
+
+  useEffect(() => {
+    latestState.current = currentState;
+  }, [currentState]);
+
+  useEffect(() => {
+    syncedState.current = null;
+    setPeerCopy(null);
+    if (!currentEid) return;
+    const sync = createSyncSession({
+      eid: currentEid,
+      getState: () => latestState.current!,
+      onRemoteOps: (ops) =>
+        setSession((prev) => {
+          if (!prev) return prev;
+          const state = applyOps(prev.state, ops);
+          remoteStates.current.add(state);
+          return { ...prev, state };
+        }),
+      onSnapshot: (incoming) => {
+        const theirs = repairState(incoming);
+        const ours = latestState.current;
+        if (theirs && ours && !isEmptyDiff(diffEvents(ours, theirs))) setPeerCopy(theirs);
+      },
+      onStatus: setSyncStatus,
+    });
+    const tab = broadcastChannelTransport(currentEid);
+    if (tab) sync.addTransport(tab);
+    syncRef.current = sync;
+    return () => {
+      sync.close();
+      syncRef.current = null;
+    };
+  }, [currentEid]);
+
+  useEffect(() => {
+    const sync = syncRef.current;
+    if (!sync || !currentEid || !relay.on) return;
+    sync.addTransport(webSocketTransport(relay.url, currentEid));
+    return () => sync.removeTransport("relay");
+  }, [currentEid, relay]);
+
+  // Local edits (including undo/redo and merges) go out as per-field ops
+  useEffect(() => {
+    if (!currentState) return;
+    const prev = syncedState.current;
+    syncedState.current = currentState;
+    if (!prev || remoteStates.current.has(currentState)) return;
+    syncRef.current?.publish(prev, currentState);
+  }, [currentState]);
+
+  function changeRelay(url: string, on: boolean) {
+    setSyncUrl(url);
+    setRelay({ url, on });
+  }
+
+  function reviewPeerCopy() {
+    if (!peerCopy || !currentEid || !currentState) return;
+    setPendingMerge({ eid: currentEid, local: currentState, incoming: peerCopy });
+    setPeerCopy(null);
+    setMode("merge");
+  }
+
+  // Ctrl/Cmd+Z undo, Ctrl/Cmd+Shift+Z or Ctrl+Y redo, while an event is open.
+  // Text fields keep the browser's own undo for what's being typed.
+  useEffect(() => {
+    if (mode !== "event") return;
+    const onKey = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || isTextField(e.target)) return;
+      const k = e.key.toLowerCase();
+      if (k === "z" && !e.shiftKey) {
+        e.preventDefault();
+        setSession((prev) => prev && undo(prev));
+      } else if ((k === "z" && e.shiftKey) || k === "y") {
+        e.preventDefault();
+        setSession((prev) => prev && redo(prev));
+      }
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [mode]);
 
   // ---------- Manager actions ----------
   function createEvent(title?: string) {
     const eid = newEid();
     const state: State = { ...defaultState, title: title?.trim() || "Monthly Meet", athletes: [] };
-    const now = Date.now();
-    saveEvent(eid, state);
-    const meta: EventMeta = { eid, title: state.title, createdAt: now, updatedAt: now };
-    const next = [meta, ...index];
-    setIndex(next);
-    saveIndex(next);
-    openEvent(eid);
+    addEvent(eid, state);
+    openEvent(eid, state);
   }
 
-  function openEvent(eid: EID) {
-    const st = loadEvent(eid) ?? { ...defaultState, athletes: [] };
+  function openEvent(eid: EID, loaded?: State) {
+    const st = loaded ?? loadEvent(eid);
+    if (!st) {
+      const q = loadQuarantine();
+      if (q.some((r) => r.key === storageKey(eid))) {
+        alert("This event couldn't be read. If it was damaged it has been set aside; see the notice on the events page.");
+        const next = index.filter((m) => m.eid !== eid);
+        setIndex(next);
+        saveIndex(next);
+      } else {
+        // e.g. a bookmark or history entry for an event deleted since
+        alert("This event isn't stored in this browser.");
+      }
+      setQuarantined(q);
+      setMode("manager");
+      return;
+    }
     setCurrentEid(eid);
-    setCurrentState(st);
+    setSession(startSession(st, loadHistory(eid)));
+    lastSaved.current = { eid, state: st };
+    setSection(undefined);
     setMode("event");
     setLastOpen(eid);
   }
 
+  // Compares against the last copy this tab wrote, so edits still waiting for autosave don't count
+  function storedChanged(eid: EID): boolean {
+    const stored = loadEvent(eid);
+    const ours = lastSaved.current?.eid === eid ? lastSaved.current.state : null;
+    return !stored || !ours || !isEmptyDiff(diffEvents(ours, stored));
+  }
+
   function deleteEvent(eid: EID) {
     const meta = index.find((m) => m.eid === eid);
     if (!meta) return;
@@ -143,67 +412,202 @@ export default function App() {
     saveIndex(next);
     if (currentEid === eid) {
       setCurrentEid(null);
-      setCurrentState(null);
+      setSession(null);
       setMode("manager");
       setLastOpen(null);
     }
   }
 
-  // Build & copy a long share link (#k=base64)
-  function copyShareLink(eid: EID) {
+  // One file with every event, the roster, the seasons and the preferences, for moving browsers or
+  // surviving cleared site data
+  function exportAll() {
+    const backup = createBackup(index, loadEvent, { roster: loadRoster(), seasons: loadSeasons() }, { theme, units, lastOpen: getLastOpen() });
+    downloadText(backupFilename(backup.exportedAt), JSON.stringify(backup), "application/json");
+    const missing = index.length - backup.index.length;
+    if (missing) alert(`${missing} event${missing === 1 ? "" : "s"} couldn't be read and ${missing === 1 ? "was" : "were"} left out of the backup.`);
+  }
+
+  function restoreBackup(preview: RestorePreview, choices: Record<string, ConflictChoice>, withPrefs: boolean) {
+    const plan = planRestore(preview, choices, index, { roster: loadRoster(), seasons: loadSeasons() }, newEid);
+    for (const { eid, state } of plan.write) saveEvent(eid, state);
+    if (plan.roster) saveRoster(plan.roster);
+    if (plan.seasons) saveSeasons(plan.seasons);
+    for (const eid of plan.overwritten) saveHistory(eid, { past: [], future: [] });
+    setIndex(plan.index);
+    saveIndex(plan.index);
+    // An overwritten event that's still open would save its old copy back over the restored one
+    if (currentEid && plan.overwritten.includes(currentEid)) {
+      setCurrentEid(null);
+      setSession(null);
+    }
+    if (withPrefs) {
+      if (preview.theme) applyTheme(preview.theme);
+      if (preview.units) applyUnits(preview.units);
+      const last = preview.lastOpen && plan.placed[preview.lastOpen];
+      if (last) setLastOpen(last);
+    }
+  }
+
+  // Build & copy a share link (#k=v2.… compressed key, see eventKey.ts)
+  async function copyShareLink(eid: EID) {
     const st = loadEvent(eid);
     if (!st) return alert("Couldn't load event from storage.");
-    const key = makeEventKey({ eid, state: st });
+    const key = await makeEventKey({ eid, state: st });
     const link = `${location.origin}${location.pathname}#k=${encodeURIComponent(key)}`;
     navigator.clipboard?.writeText(link);
     alert("Share link copied to clipboard.");
   }
 
-  function addOrForkEvent(payload: { eid?: EID; state?: State }): { eid: EID; state: State } {
-    const incomingState = payload.state!;
-    const incomingEid = payload.eid ?? newEid();
-
-    const existing = loadEvent(incomingEid);
-    if (!existing) {
-      saveEvent(incomingEid, incomingState);
-      const now = Date.now();
-      const meta: EventMeta = { eid: incomingEid, title: incomingState.title, createdAt: now, updatedAt: now };
-      const next = [meta, ...index];
-      setIndex(next);
+  // Functional update: this also runs from the boot effect, before `index` has been loaded into render scope
+  function addEvent(eid: EID, state: State) {
+    saveEvent(eid, state);
+    const now = Date.now();
+    const meta: EventMeta = { eid, title: state.title, createdAt: now, updatedAt: now };
+    setIndex((list) => {
+      const next = [meta, ...list];
       saveIndex(next);
-      return { eid: incomingEid, state: incomingState };
-    }
+      return next;
+    });
+  }
 
-    if (JSON.stringify(existing) === JSON.stringify(incomingState)) {
-      return { eid: incomingEid, state: existing };
+  // A link for an event we don't have is added; one we already have with different contents goes to
+  // the merge screen instead of quietly becoming a second copy
+  function importSharedEvent(payload: { eid?: EID; state: State }) {
+    const eid = payload.eid ?? newEid();
+    const existing = loadEvent(eid);
+    if (!existing) {
+      addEvent(eid, payload.state);
+      openEvent(eid, payload.state);
+    } else if (isEmptyDiff(diffEvents(existing, payload.state))) {
+      openEvent(eid, existing);
     } else {
-      const eid = newEid();
-      saveEvent(eid, incomingState);
-      const now = Date.now();
-      const meta: EventMeta = { eid, title: incomingState.title, createdAt: now, updatedAt: now };
-      const next = [meta, ...index];
-      setIndex(next);
-      saveIndex(next);
-      return { eid, state: incomingState };
+      setPendingMerge({ eid, local: existing, incoming: payload.state });
+      setMode("merge");
     }
   }
 
-  return mode === "manager" ? (
+  function applyMergeResult(merged: State) {
+    if (!pendingMerge) return;
+    const { eid, local } = pendingMerge;
+    setPendingMerge(null);
+    // The merge is an ordinary edit on top of the local event, so it can be undone
+    setCurrentEid(eid);
+    setSession(recordEdit(startSession(local, loadHistory(eid)), merged, Date.now()));
+    setMode("event");
+    setLastOpen(eid);
+  }
+
+  function forkIncoming() {
+    if (!pendingMerge) return;
+    const eid = newEid();
+    const state = { ...pendingMerge.incoming, title: `${pendingMerge.incoming.title} (copy)` };
+    setPendingMerge(null);
+    addEvent(eid, state);
+    openEvent(eid, state);
+  }
+
+  function exitDisplay() {
+    setDisplay(null);
+    setMode("manager");
+  }
+
+  // A separate window for the wall screen; it follows this one over live sync
+  function openDisplay(eid: EID) {
+    window.open(`${location.pathname}${location.search}${routeHash({ name: "display", eid })}`, `liftwin-display-${eid}`);
+  }
+
+  const view = mode === "display" && display ? (
+    <DisplayView eid={display.eid} initial={display.state} globalUnits={units} onExit={exitDisplay} />
+  ) : mode === "merge" && pendingMerge ? (
+    <MergeView
+      local={pendingMerge.local}
+      incoming={pendingMerge.incoming}
+      unit={pendingMerge.local.units ?? units}
+      onKeepLocal={() => {
+        const { eid, local } = pendingMerge;
+        setPendingMerge(null);
+        openEvent(eid, local);
+      }}
+      onApply={applyMergeResult}
+      onFork={forkIncoming}
+    />
+  ) : mode === "manager" ? (
     <EventManager
       events={index}
       onNew={(title) => createEvent(title)}
       onOpen={openEvent}
       onDelete={deleteEvent}
       onCopyLink={copyShareLink}
+      onSeasons={() => setMode("season")}
+      onRoster={() => setMode("roster")}
       theme={theme}
       setTheme={applyTheme}
+      units={units}
+      setUnits={applyUnits}
+      quarantined={quarantined}
+      onClearQuarantine={() => {
+        clearQuarantine();
+        setQuarantined([]);
+      }}
+      onExportAll={exportAll}
+      onRestore={restoreBackup}
     />
+  ) : mode === "history" && historyOf ? (
+    <AthleteHistory
+      identity={historyOf.identity}
+      name={historyOf.name}
+      events={index}
+      unit={units}
+      onBack={() => setMode(historyOf.back)}
+      onOpenEvent={openEvent}
+    />
+  ) : mode === "roster" ? (
+    <RosterView
+      events={index}
+      unit={units}
+      onBack={() => setMode("manager")}
+      onShowHistory={(identity, name) => {
+        setHistoryOf({ identity, name, back: "roster" });
+        setMode("history");
+      }}
+    />
+  ) : mode === "season" ? (
+    <SeasonView events={index} onBack={() => setMode("manager")} onOpenEvent={openEvent} />
   ) : currentState && currentEid ? (
     <EventView
+      eid={currentEid}
+      events={index}
       state={currentState}
       setState={setEventState}
       onBack={() => setMode("manager")}
       onCopyLink={() => copyShareLink(currentEid)}
+      onOpenDisplay={() => openDisplay(currentEid)}
+      section={section}
+      onSection={setSection}
+      onUndo={undoEdit}
+      onRedo={redoEdit}
+      canUndo={!!session?.history.past.length}
+      canRedo={!!session?.history.future.length}
+      onShowHistory={(identity, name) => {
+        setHistoryOf({ identity, name, back: "event" });
+        setMode("history");
+      }}
+      globalUnits={units}
+      sync={{
+        status: syncStatus,
+        relayUrl: relay.url,
+        relayOn: relay.on,
+        setRelay: changeRelay,
+        diverged: !!peerCopy,
+        onReview: reviewPeerCopy,
+      }}
     />
   ) : null;
-}
\ No newline at end of file
+
+  return (
+    <>
+      {view}
+      {mode !== "display" && <SaveStatus />}
+    </>
+  );
+}
@@ -0,0 +1,180 @@
+import { useMemo } from "react";
+import type { EID, EventMeta, WeightUnit } from "./types";
+import { collectHistories, personalRecords, type HistoryEntry, type HistoryMetric } from "./history";
+import { formatSeconds } from "./scoring";
+import { formatBothUnits, formatWeight } from "./units";
+
+function formatDate(ts: number) {
+  return new Date(ts).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+}
+
+// Small inline line chart; `lowerIsBetter` flips the y axis so "up" always means better
+function TrendChart({
+  label,
+  points,
+  prs,
+  format,
+  lowerIsBetter = false,
+}: {
+  label: string;
+  points: Array<{ eid: EID; value: number | null }>;
+  prs: Set<EID>;
+  format: (n: number) => string;
+  lowerIsBetter?: boolean;
+}) {
+  const W = 280;
+  const H = 90;
+  const PAD = 10;
+  const vals = points.filter((p): p is { eid: EID; value: number } => p.value !== null);
+  if (vals.length === 0) return null;
+  const min = Math.min(...vals.map((p) => p.value));
+  const max = Math.max(...vals.map((p) => p.value));
+  const span = max - min || 1;
+  const step = points.length > 1 ? (W - PAD * 2) / (points.length - 1) : 0;
+  const xy = points
+    .map((p, i) => {
+      if (p.value === null) return null;
+      const t = (p.value - min) / span;
+      const y = lowerIsBetter ? PAD + t * (H - PAD * 2) : H - PAD - t * (H - PAD * 2);
+      return { eid: p.eid, value: p.value, x: points.length > 1 ? PAD + i * step : W / 2, y };
+    })
+    .filter((p): p is { eid: EID; value: number; x: number; y: number } => p !== null);
+
+  return (
+    <div className="rounded-xl border border-[var(--border)] p-3">
+      <div className="flex items-baseline justify-between text-xs mb-1">
+        <span className="font-semibold">{label}</span>
+        <span className="opacity-70">
+          best {format(lowerIsBetter ? min : max)}
+        </span>
+      </div>
+      <svg viewBox={`0 0 ${W} ${H}`} className="w-full h-24" role="img" aria-label={`${label} trend`}>
+        <polyline
+          fill="none"
+          stroke="var(--accent)"
+          strokeWidth={2}
+          points={xy.map((p) => `${p.x},${p.y}`).join(" ")}
+        />
+        {xy.map((p) => (
+          <circle key={p.eid} cx={p.x} cy={p.y} r={prs.has(p.eid) ? 5 : 3} fill={prs.has(p.eid) ? "var(--ok)" : "var(--accent)"}>
+            <title>{format(p.value)}{prs.has(p.eid) ? " (PR)" : ""}</title>
+          </circle>
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+export default function AthleteHistory({
+  identity,
+  name,
+  events,
+  unit,
+  onBack,
+  onOpenEvent,
+}: {
+  identity: string;
+  name: string;
+  events: EventMeta[];
+  unit: WeightUnit;
+  onBack: () => void;
+  onOpenEvent: (eid: EID) => void;
+}) {
+  const entries = useMemo(() => collectHistories(events).get(identity) ?? [], [events, identity]);
+  const prs = useMemo(() => personalRecords(entries), [entries]);
+
+  const prSet = (m: HistoryMetric) => new Set(entries.filter((e) => prs[e.eid]?.includes(m)).map((e) => e.eid));
+  const series = (pick: (e: HistoryEntry) => number | null) => entries.map((e) => ({ eid: e.eid, value: pick(e) }));
+  const strengthLabels = [...new Set(entries.map((e) => e.strengthLabel).filter((l): l is string => !!l))];
+
+  const fmtW = (kg: number) => formatWeight(kg, unit);
+  const cell = (e: HistoryEntry, m: HistoryMetric, text: string, title?: string) => {
+    const isPR = prs[e.eid]?.includes(m);
+    return (
+      <td className={`py-2 pr-3 ${isPR ? "font-semibold" : ""}`} title={title}>
+        {text}
+        {isPR && <PRBadge />}
+      </td>
+    );
+  };
+
+  return (
+    <div className="min-h-screen px-4 py-6 md:py-10 bg-[var(--bg)] text-[var(--fg)]">
+      <div className="mx-auto max-w-5xl">
+        <div className="mb-6 space-y-1">
+          <h1 className="text-2xl md:text-3xl font-bold">{name} — progress</h1>
+          <p className="text-xs md:text-sm opacity-80">
+            <button onClick={onBack} className="underline hover:opacity-80">Back</button>
+          </p>
+        </div>
+
+        {entries.length === 0 ? (
+          <div className="rounded-2xl border border-[var(--border)] bg-[var(--card)] p-6 text-center">
+            <p>No stored results for {name} yet.</p>
+          </div>
+        ) : (
+          <>
+            <div className="mb-6 grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+              <TrendChart label={`Total (${unit})`} points={series((e) => e.total)} prs={prSet("total")} format={fmtW} />
+              <TrendChart label={`Squat (${unit})`} points={series((e) => e.squat)} prs={prSet("squat")} format={fmtW} />
+              <TrendChart label={`Bench (${unit})`} points={series((e) => e.bench)} prs={prSet("bench")} format={fmtW} />
+              <TrendChart label={`Deadlift (${unit})`} points={series((e) => e.deadlift)} prs={prSet("deadlift")} format={fmtW} />
+              {strengthLabels.length === 1 && (
+                <TrendChart label={strengthLabels[0]} points={series((e) => e.strength)} prs={new Set()} format={(n) => n.toFixed(2)} />
+              )}
+              <TrendChart label="5k time" points={series((e) => e.run)} prs={prSet("run")} format={formatSeconds} lowerIsBetter />
+            </div>
+
+            <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-4 overflow-x-auto">
+              <h2 className="font-semibold mb-3">All results</h2>
+              <table className="min-w-full text-sm">
+                <thead className="text-left opacity-80">
+                  <tr>
+                    <th className="py-2 pr-3">Date</th>
+                    <th className="py-2 pr-3">Event</th>
+                    <th className="py-2 pr-3">Squat ({unit})</th>
+                    <th className="py-2 pr-3">Bench ({unit})</th>
+                    <th className="py-2 pr-3">Deadlift ({unit})</th>
+                    <th className="py-2 pr-3">Total ({unit})</th>
+                    <th className="py-2 pr-3">Strength score</th>
+                    <th className="py-2 pr-3">5k</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...entries].reverse().map((e) => (
+                    <tr key={e.eid} className="border-t border-[var(--border)]">
+                      <td className="py-2 pr-3 whitespace-nowrap">{formatDate(e.date)}</td>
+                      <td className="py-2 pr-3">
+                        <button onClick={() => onOpenEvent(e.eid)} className="underline hover:opacity-80">{e.title}</button>
+                      </td>
+                      {cell(e, "squat", formatWeight(e.squat, unit, false), formatBothUnits(e.squat))}
+                      {cell(e, "bench", formatWeight(e.bench, unit, false), formatBothUnits(e.bench))}
+                      {cell(e, "deadlift", formatWeight(e.deadlift, unit, false), formatBothUnits(e.deadlift))}
+                      {cell(e, "total", formatWeight(e.total, unit, false), formatBothUnits(e.total))}
+                      <td className="py-2 pr-3">
+                        {e.strength === null ? "—" : e.strength.toFixed(2)}
+                        {e.strengthLabel && <span className="ml-1 text-xs opacity-60">{e.strengthLabel}</span>}
+                      </td>
+                      {cell(e, "run", e.run === null ? "—" : formatSeconds(e.run))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="text-xs opacity-70 mt-3">
+                A PR is a result that beats every earlier result for that lift, total or 5k. Strength scores aren’t flagged since the formula can change between events.
+              </p>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
+
+export function PRBadge() {
+  return (
+    <span className="ml-1 px-1.5 py-0.5 rounded bg-[var(--ok)] text-white text-[10px] font-bold align-middle" title="Personal record">
+      PR!
+    </span>
+  );
+}
@@ -0,0 +1,229 @@
+import { useMemo, useState } from "react";
+import type { EventMeta } from "./types";
+import { loadEvent, loadRoster, loadSeasons } from "./storage";
+import {
+  BackupError,
+  CONFLICT_CHOICES,
+  defaultChoice,
+  readBackup,
+  rosterChoiceKey,
+  seasonChoiceKey,
+  type ConflictChoice,
+  type RestoreListEntry,
+  type RestorePreview,
+} from "./backup";
+
+export default function BackupImport({
+  events,
+  onRestore,
+  onClose,
+}: {
+  events: EventMeta[];
+  onRestore: (preview: RestorePreview, choices: Record<string, ConflictChoice>, withPrefs: boolean) => void;
+  onClose: () => void;
+}) {
+  const [preview, setPreview] = useState<RestorePreview | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [withPrefs, setWithPrefs] = useState(true);
+
+  async function loadFile(file: File) {
+    setPreview(null);
+    setError(null);
+    try {
+      const p = readBackup(JSON.parse(await file.text()), events, loadEvent, { roster: loadRoster(), seasons: loadSeasons() });
+      setPreview(p);
+      // Roster profiles and seasons start as "skip" (a missing choice) like identical events
+      setChoices(Object.fromEntries(p.entries.filter((e) => e.existing).map((e) => [e.meta.eid, defaultChoice(e)])));
+    } catch (e) {
+      setError(e instanceof BackupError ? e.message : e instanceof SyntaxError ? "The file isn't valid JSON." : (e as Error).message);
+    }
+  }
+
+  const counts = useMemo(() => {
+    const entries = preview?.entries ?? [];
+    const added = entries.filter((e) => !e.existing).length;
+    const picked = (c: ConflictChoice) => entries.filter((e) => e.existing && choices[e.meta.eid] === c).length;
+    return { added, overwrite: picked("overwrite"), keepBoth: picked("keepBoth"), skip: picked("skip") };
+  }, [preview, choices]);
+  const lists = useMemo(() => {
+    const items = [
+      ...(preview?.roster ?? []).map((e) => ({ ...e, key: rosterChoiceKey(e.item.id) })),
+      ...(preview?.seasons ?? []).map((e) => ({ ...e, key: seasonChoiceKey(e.item.id) })),
+    ];
+    return {
+      added: items.filter((e) => !e.existing).length,
+      overwrite: items.filter((e) => e.existing && !e.identical && choices[e.key] === "overwrite").length,
+    };
+  }, [preview, choices]);
+  const nothingToDo = counts.added + counts.overwrite + counts.keepBoth + lists.added + lists.overwrite === 0;
+
+  return (
+    <div className="mb-4 rounded-2xl border border-[var(--border)] bg-[var(--card)] p-4 text-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold">Import backup</h2>
+        <button onClick={onClose} className="px-2 py-1 rounded bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]">Close</button>
+      </div>
+      <input type="file" accept=".json,application/json" onChange={(e) => e.target.files?.[0] && loadFile(e.target.files[0])} />
+      {error && <p className="mt-3 text-[var(--danger)]">Couldn't read the backup. {error}</p>}
+
+      {preview && (
+        <>
+          <p className="mt-3 opacity-80">
+            {preview.entries.length} event{preview.entries.length === 1 ? "" : "s"}
+            {preview.exportedAt ? `, saved ${new Date(preview.exportedAt).toLocaleString()}` : ""}.
+          </p>
+          {preview.unreadable.length > 0 && (
+            <p className="mt-1 text-[var(--danger)]">
+              {preview.unreadable.length} item{preview.unreadable.length === 1 ? " is" : "s are"} damaged and will be left out: {preview.unreadable.join(", ")}
+            </p>
+          )}
+
+          <div className="mt-3 overflow-x-auto">
+            <table className="min-w-full">
+              <thead className="text-left opacity-70">
+                <tr>
+                  <th className="py-1 pr-3">Event</th>
+                  <th className="py-1 pr-3">Updated</th>
+                  <th className="py-1 pr-3">In this browser</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.entries.map(({ meta, state, existing, identical }) => (
+                  <tr key={meta.eid} className="border-t border-[var(--border)]">
+                    <td className="py-1 pr-3">
+                      {meta.title}
+                      <span className="opacity-60"> · {state.athletes.length} entrant{state.athletes.length === 1 ? "" : "s"}</span>
+                    </td>
+                    <td className="py-1 pr-3 opacity-80">{new Date(meta.updatedAt).toLocaleDateString()}</td>
+                    <td className="py-1 pr-3">
+                      {!existing ? (
+                        <span className="opacity-70">New — will be added</span>
+                      ) : (
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="opacity-70">
+                            {identical ? "Same copy" : `Exists (updated ${new Date(existing.updatedAt).toLocaleDateString()})`}
+                          </span>
+                          <select
+                            className="bg-[var(--input)] border border-[var(--border)] rounded px-1 py-0.5"
+                            value={choices[meta.eid] ?? "skip"}
+                            onChange={(e) => setChoices((c) => ({ ...c, [meta.eid]: e.target.value as ConflictChoice }))}
+                          >
+                            {(Object.keys(CONFLICT_CHOICES) as ConflictChoice[]).map((c) => (
+                              <option key={c} value={c}>{CONFLICT_CHOICES[c]}</option>
+                            ))}
+                          </select>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <ListRestore
+            title="Roster"
+            entries={preview.roster}
+            name={(p) => p.name || "Unnamed"}
+            choiceKey={rosterChoiceKey}
+            choices={choices}
+            onChoose={(key, c) => setChoices((prev) => ({ ...prev, [key]: c }))}
+          />
+          <ListRestore
+            title="Season"
+            entries={preview.seasons}
+            name={(s) => `${s.name} · ${s.eids.length} event${s.eids.length === 1 ? "" : "s"}`}
+            choiceKey={seasonChoiceKey}
+            choices={choices}
+            onChoose={(key, c) => setChoices((prev) => ({ ...prev, [key]: c }))}
+          />
+
+          <div className="mt-3 flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={withPrefs} onChange={(e) => setWithPrefs(e.target.checked)} />
+              <span>Also restore theme, units and the last open event</span>
+            </label>
+            <button
+              disabled={nothingToDo && !withPrefs}
+              onClick={() => {
+                const replaced = counts.overwrite + lists.overwrite;
+                if (replaced && !confirm(`Replace ${replaced} item${replaced === 1 ? "" : "s"} in this browser with the backup's copy? This cannot be undone.`)) return;
+                onRestore(preview, choices, withPrefs);
+              }}
+              className="px-3 py-2 rounded-lg bg-[var(--accent)] hover:bg-[var(--accentHover)] text-white disabled:opacity-50"
+            >
+              Restore
+            </button>
+            <span className="opacity-70">
+              {counts.added} new, {counts.overwrite} overwritten, {counts.keepBoth} kept as copies, {counts.skip} skipped
+              {lists.added + lists.overwrite > 0 && `; ${lists.added} roster/season item${lists.added === 1 ? "" : "s"} added, ${lists.overwrite} overwritten`}
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+// Roster profiles or seasons in the backup; ones already here can only be skipped or overwritten
+function ListRestore<T extends { id: string }>({
+  title,
+  entries,
+  name,
+  choiceKey,
+  choices,
+  onChoose,
+}: {
+  title: string;
+  entries: RestoreListEntry<T>[];
+  name: (item: T) => string;
+  choiceKey: (id: string) => string;
+  choices: Record<string, ConflictChoice>;
+  onChoose: (key: string, choice: ConflictChoice) => void;
+}) {
+  if (!entries.length) return null;
+  const choiceList: ConflictChoice[] = ["skip", "overwrite"];
+  return (
+    <div className="mt-3 overflow-x-auto">
+      <table className="min-w-full">
+        <thead className="text-left opacity-70">
+          <tr>
+            <th className="py-1 pr-3">{title}</th>
+            <th className="py-1 pr-3">In this browser</th>
+          </tr>
+        </thead>
+        <tbody>
+          {entries.map(({ item, existing, identical }) => {
+            const key = choiceKey(item.id);
+            return (
+              <tr key={key} className="border-t border-[var(--border)]">
+                <td className="py-1 pr-3">{name(item)}</td>
+                <td className="py-1 pr-3">
+                  {!existing ? (
+                    <span className="opacity-70">New — will be added</span>
+                  ) : identical ? (
+                    <span className="opacity-70">Same copy</span>
+                  ) : (
+                    <div className="flex flex-wrap items-center gap-2">
+                      <span className="opacity-70">Exists ({name(existing)})</span>
+                      <select
+                        className="bg-[var(--input)] border border-[var(--border)] rounded px-1 py-0.5"
+                        value={choices[key] ?? "skip"}
+                        onChange={(e) => onChoose(key, e.target.value as ConflictChoice)}
+                      >
+                        {choiceList.map((c) => (
+                          <option key={c} value={c}>{CONFLICT_CHOICES[c]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  )}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,137 @@
+import { useMemo, useState } from "react";
+import type { Athlete, Discipline, WeightUnit } from "./types";
+import { guessTarget, importTargets, parseDelimited, rowsToAthletes, type ImportTarget } from "./csv";
+
+function uid() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export default function CsvImport({
+  disciplines,
+  unit,
+  onImport,
+  onClose,
+}: {
+  disciplines: Discipline[];
+  unit: WeightUnit;
+  onImport: (athletes: Athlete[], replace: boolean) => void;
+  onClose: () => void;
+}) {
+  const [text, setText] = useState("");
+  const [hasHeader, setHasHeader] = useState(true);
+  const [mapping, setMapping] = useState<ImportTarget[] | null>(null);
+  const [replace, setReplace] = useState(false);
+
+  const table = useMemo(() => parseDelimited(text), [text]);
+  const headers = useMemo(
+    () => (hasHeader && table.length ? table[0] : (table[0] ?? []).map((_, i) => `Column ${i + 1}`)),
+    [table, hasHeader]
+  );
+  const dataRows = useMemo(() => (hasHeader ? table.slice(1) : table), [table, hasHeader]);
+  const targets = importTargets(disciplines);
+  // Until the user touches a select, follow the guesses for whatever was pasted
+  const effectiveMapping = useMemo(
+    () => headers.map((h, i) => mapping?.[i] ?? (hasHeader ? guessTarget(h, disciplines) : "")),
+    [headers, mapping, hasHeader, disciplines]
+  );
+  const preview = useMemo(
+    () => rowsToAthletes(dataRows, effectiveMapping, headers, disciplines, unit, uid),
+    [dataRows, effectiveMapping, headers, disciplines, unit]
+  );
+
+  function setColumn(i: number, target: ImportTarget) {
+    const next = [...effectiveMapping];
+    next[i] = target;
+    setMapping(next);
+  }
+
+  async function loadFile(file: File) {
+    setText(await file.text());
+    setMapping(null);
+  }
+
+  const hasName = effectiveMapping.includes("name");
+
+  return (
+    <div className="mb-6 rounded-2xl border border-[var(--border)] bg-[var(--card)] p-4 text-sm">
+      <div className="flex items-center justify-between mb-3">
+        <h2 className="font-semibold">Import entrants (CSV / paste from spreadsheet)</h2>
+        <button onClick={onClose} className="px-2 py-1 rounded bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]">Close</button>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={(e) => e.target.files?.[0] && loadFile(e.target.files[0])} />
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={hasHeader} onChange={(e) => { setHasHeader(e.target.checked); setMapping(null); }} />
+          <span>First row is a header</span>
+        </label>
+        <span className="opacity-70">Weights are read in {unit}.</span>
+      </div>
+      <textarea
+        className="w-full h-28 bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 font-mono text-xs"
+        value={text}
+        onChange={(e) => { setText(e.target.value); setMapping(null); }}
+        placeholder={"Name,Sex,Age,BW,Squat,Bench,Deadlift,5k\nAlex,M,30,85,180,120,220,22:30"}
+      />
+
+      {table.length > 0 && (
+        <>
+          <div className="mt-3 overflow-x-auto">
+            <table className="min-w-full text-xs">
+              <thead className="text-left">
+                <tr>
+                  {headers.map((h, i) => (
+                    <th key={i} className="py-1 pr-2 align-bottom">
+                      <div className="opacity-70 mb-1">{h}</div>
+                      <select
+                        className="bg-[var(--input)] border border-[var(--border)] rounded px-1 py-0.5"
+                        value={effectiveMapping[i]}
+                        onChange={(e) => setColumn(i, e.target.value as ImportTarget)}
+                      >
+                        {targets.map((t) => (
+                          <option key={t.value} value={t.value}>{t.label}</option>
+                        ))}
+                      </select>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {dataRows.slice(0, 5).map((r, ri) => (
+                  <tr key={ri} className="border-t border-[var(--border)]">
+                    {headers.map((_, ci) => (
+                      <td key={ci} className={`py-1 pr-2 ${effectiveMapping[ci] ? "" : "opacity-40"}`}>{r[ci] ?? ""}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {dataRows.length > 5 && <p className="opacity-70 mt-1">…and {dataRows.length - 5} more rows</p>}
+          </div>
+
+          {preview.issues.length > 0 && (
+            <ul className="mt-3 list-disc ml-5 text-[var(--danger)] space-y-0.5 max-h-32 overflow-y-auto">
+              {preview.issues.map((iss, i) => (
+                <li key={i}>Row {iss.row}, {iss.column}: {iss.message}</li>
+              ))}
+            </ul>
+          )}
+
+          <div className="mt-3 flex flex-wrap items-center gap-3">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={replace} onChange={(e) => setReplace(e.target.checked)} />
+              <span>Replace current entrants</span>
+            </label>
+            <button
+              onClick={() => onImport(preview.athletes, replace)}
+              disabled={!hasName || preview.athletes.length === 0}
+              className="px-3 py-2 rounded-lg bg-[var(--ok)] hover:bg-[var(--okHover)] text-white disabled:opacity-50"
+            >
+              Import {preview.athletes.length} athlete{preview.athletes.length === 1 ? "" : "s"}
+            </button>
+            {!hasName && <span className="text-[var(--danger)]">Map a column to Name first.</span>}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect, useLayoutEffect, useMemo, useRef, useState } from "react";
+import type { EID, State, WeightUnit } from "./types";
+import { formatPlace, scoreColumn, scoreEvent, scoringContext } from "./scoring";
+import { repairState } from "./schema";
+import { applyOps, createSyncSession } from "./sync";
+import { broadcastChannelTransport } from "./syncTransport";
+
+const SLIDE_MS = 12_000;
+const MAX_ROWS = 10;
+
+type SlideRow = { id: string; place: number; placeText: string; name: string; score: string; points: string };
+type Slide = { key: string; title: string; scoreLabel: string | null; rows: SlideRow[]; more: number };
+
+// Read-only wall-screen view of one event. It follows the scorer's window over the same
+// BroadcastChannel live sync uses, but never sends anything back.
+export default function DisplayView({
+  eid,
+  initial,
+  globalUnits,
+  onExit,
+}: {
+  eid: EID;
+  initial: State;
+  globalUnits: WeightUnit;
+  onExit: () => void;
+}) {
+  const [state, setState] = useState(initial);
+  const [live, setLive] = useState(false);
+  const [slideIndex, setSlideIndex] = useState(0);
+  const [paused, setPaused] = useState(false);
+
+  useEffect(() => {
+    const sync = createSyncSession({
+      eid,
+      getState: () => initial,
+      onRemoteOps: (ops) => setState((s) => applyOps(s, ops)),
+      // the scorer's copy is the truth; take it whole
+      onSnapshot: (incoming) => {
+        const st = repairState(incoming);
+        if (st) setState(st);
+      },
+      onStatus: (s) => setLive(s.peers > 0),
+      listenOnly: true,
+    });
+    const tab = broadcastChannelTransport(eid);
+    if (tab) sync.addTransport(tab);
+    return () => sync.close();
+  }, [eid, initial]);
+
+  const unit = state.units ?? globalUnits;
+  const slides = useMemo<Slide[]>(() => {
+    const ctx = scoringContext(state);
+    const { scores, leaderboard } = scoreEvent(state, ctx);
+    const perDiscipline = scores.map(({ discipline: d, rows, points, places }) => {
+      const column = scoreColumn(d, ctx, unit);
+      const ranked = rows.filter((r) => places[r.id]);
+      return {
+        key: d.id,
+        title: d.name,
+        scoreLabel: column.label,
+        rows: ranked.slice(0, MAX_ROWS).map((r) => ({
+          id: r.id,
+          place: places[r.id].place,
+          placeText: formatPlace(places[r.id]),
+          name: r.name,
+          score: r.score === null ? "—" : column.format(r.score),
+          points: (points[r.id] ?? 0).toFixed(1),
+        })),
+        more: Math.max(0, ranked.length - MAX_ROWS),
+      };
+    });
+    const overall: Slide = {
+      key: "overall",
+      title: `${state.title} · Overall`,
+      scoreLabel: null,
+      rows: leaderboard.slice(0, MAX_ROWS).map((row) => ({
+        id: row.id,
+        place: row.place,
+        placeText: formatPlace(row),
+        name: row.name,
+        score: "",
+        points: row.totalPoints.toFixed(1),
+      })),
+      more: Math.max(0, leaderboard.length - MAX_ROWS),
+    };
+    return [...perDiscipline, overall];
+  }, [state, unit]);
+
+  const current = slides[slideIndex % slides.length];
+  const step = (by: number) => setSlideIndex((i) => (i + by + slides.length) % slides.length);
+
+  useEffect(() => {
+    if (paused) return;
+    const t = window.setTimeout(() => setSlideIndex((i) => (i + 1) % slides.length), SLIDE_MS);
+    return () => window.clearTimeout(t);
+  }, [paused, slideIndex, slides.length]);
+
+  // → / ← step, space pauses, Esc leaves
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "ArrowRight") step(1);
+      else if (e.key === "ArrowLeft") step(-1);
+      else if (e.key === " ") {
+        e.preventDefault();
+        setPaused((p) => !p);
+      } else if (e.key === "Escape") onExit();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  });
+
+  return (
+    <div className="min-h-screen bg-[var(--bg)] text-[var(--fg)] px-10 py-8 flex flex-col">
+      <div className="flex items-baseline justify-between gap-6 mb-8">
+        <h1 className="text-5xl md:text-6xl font-bold truncate">{current.title}</h1>
+        <span className="flex items-center gap-3 text-xl opacity-80 whitespace-nowrap" role="status">
+          <span className={`inline-block w-3 h-3 rounded-full ${live ? "bg-[var(--ok)]" : "bg-[var(--muted)]"}`} />
+          {live ? "Live" : "Waiting for the scoring window"}
+        </span>
+      </div>
+
+      <div className="flex-1">
+        <div className="grid grid-cols-[6rem_1fr_auto_auto] gap-x-10 text-2xl opacity-60 pb-3 border-b border-[var(--border)]">
+          <span>Place</span>
+          <span>Athlete</span>
+          <span className="text-right">{current.scoreLabel ?? ""}</span>
+          <span className="text-right">Points</span>
+        </div>
+        {current.rows.length === 0 ? (
+          <p className="text-3xl opacity-60 mt-10">No results yet</p>
+        ) : (
+          <RankRows key={current.key} rows={current.rows} />
+        )}
+        {current.more > 0 && <p className="text-2xl opacity-60 mt-4">and {current.more} more</p>}
+      </div>
+
+      <div className="mt-8 flex items-center justify-between text-lg opacity-60">
+        <div className="flex gap-2">
+          {slides.map((s, i) => (
+            <button
+              key={s.key}
+              onClick={() => setSlideIndex(i)}
+              className={`w-3 h-3 rounded-full ${s.key === current.key ? "bg-[var(--fg)]" : "bg-[var(--mutedBtn)]"}`}
+              aria-label={s.title}
+            />
+          ))}
+        </div>
+        <div className="flex gap-3">
+          <button onClick={() => setPaused((p) => !p)} className="px-3 py-1 rounded bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]">
+            {paused ? "Resume" : "Pause"}
+          </button>
+          <button onClick={onExit} className="px-3 py-1 rounded bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]">
+            Exit
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Rows slide to their new position when the order changes; a row that moved up flashes
+function RankRows({ rows }: { rows: SlideRow[] }) {
+  const els = useRef(new Map<string, HTMLDivElement>());
+  const last = useRef(new Map<string, { top: number; place: number }>());
+
+  useLayoutEffect(() => {
+    els.current.forEach((el, id) => {
+      const top = el.getBoundingClientRect().top;
+      const place = rows.find((r) => r.id === id)?.place ?? Infinity;
+      const prev = last.current.get(id);
+      if (prev && prev.top !== top) {
+        el.animate([{ transform: `translateY(${prev.top - top}px)` }, { transform: "translateY(0)" }], { duration: 700, easing: "ease-out" });
+      }
+      if (prev && place < prev.place) {
+        el.animate([{ backgroundColor: "rgba(16, 185, 129, 0.35)" }, { backgroundColor: "rgba(16, 185, 129, 0)" }], { duration: 2500 });
+      }
+      last.current.set(id, { top, place });
+    });
+  }, [rows]);
+
+  return (
+    <div>
+      {rows.map((r) => (
+        <div
+          key={r.id}
+          ref={(el) => {
+            if (el) els.current.set(r.id, el);
+            else els.current.delete(r.id);
+          }}
+          className="grid grid-cols-[6rem_1fr_auto_auto] gap-x-10 items-baseline py-3 border-b border-[var(--border)] text-4xl"
+        >
+          <span className={`font-bold ${r.place === 1 ? "text-[var(--accent)]" : ""}`}>{r.placeText}</span>
+          <span className="font-semibold truncate">{r.name}</span>
+          <span className="text-right tabular-nums opacity-80">{r.score}</span>
+          <span className="text-right tabular-nums font-bold">{r.points}</span>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,5 +1,9 @@
 import { useMemo, useState } from "react";
-import type { EID, EventMeta } from "./types";
+import type { EID, EventMeta, WeightUnit } from "./types";
+import type { QuarantinedRecord } from "./storage";
+import { downloadText } from "./csv";
+import type { ConflictChoice, RestorePreview } from "./backup";
+import BackupImport from "./BackupImport";
 
 export default function EventManager({
   events,
@@ -7,18 +11,35 @@ export default function EventManager({
   onOpen,
   onDelete,
   onCopyLink,
+  onSeasons,
+  onRoster,
   theme,
   setTheme,
+  units,
+  setUnits,
+  quarantined,
+  onClearQuarantine,
+  onExportAll,
+  onRestore,
 }: {
   events: EventMeta[];
   onNew: (title?: string) => void;
   onOpen: (eid: EID) => void;
   onDelete: (eid: EID) => void;
   onCopyLink: (eid: EID) => void;
+  onSeasons: () => void;
+  onRoster: () => void;
   theme: "light" | "dark";
   setTheme: (t: "light" | "dark") => void;
+  units: WeightUnit;
+  setUnits: (u: WeightUnit) => void;
+  quarantined: QuarantinedRecord[];
+  onClearQuarantine: () => void;
+  onExportAll: () => void;
+  onRestore: (preview: RestorePreview, choices: Record<string, ConflictChoice>, withPrefs: boolean) => void;
 }) {
   const [query, setQuery] = useState("");
+  const [showRestore, setShowRestore] = useState(false);
 
   const filtered = useMemo(() => {
     const q = query.trim().toLowerCase();
@@ -50,6 +71,18 @@ export default function EventManager({
             >
               New event
             </button>
+            <button
+              onClick={onSeasons}
+              className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)] text-sm"
+            >
+              Seasons
+            </button>
+            <button
+              onClick={onRoster}
+              className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)] text-sm"
+            >
+              Roster
+            </button>
             <select
               className="px-2 py-2 rounded-lg bg-[var(--input)] border border-[var(--border)] text-sm"
               value={theme}
@@ -59,9 +92,52 @@ export default function EventManager({
               <option value="light">Light</option>
               <option value="dark">Dark</option>
             </select>
+            <select
+              className="px-2 py-2 rounded-lg bg-[var(--input)] border border-[var(--border)] text-sm"
+              value={units}
+              onChange={(e) => setUnits(e.target.value as WeightUnit)}
+              title="Default weight unit (events can override)"
+            >
+              <option value="kg">kg</option>
+              <option value="lb">lb</option>
+            </select>
           </div>
         </div>
 
+        {quarantined.length > 0 && (
+          <div className="mb-4 rounded-2xl border border-[var(--danger)] bg-[var(--card)] p-4 text-sm">
+            <p className="mb-2">
+              {quarantined.length} saved record{quarantined.length === 1 ? "" : "s"} couldn’t be read and {quarantined.length === 1 ? "was" : "were"} set aside so the rest of your data keeps working.
+              Download a copy before discarding if you want to try recovering it.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={() => downloadText("liftwin-quarantine.json", JSON.stringify(quarantined, null, 2), "application/json")}
+                className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]"
+              >
+                Download
+              </button>
+              <button
+                onClick={() => confirm("Discard the unreadable records for good?") && onClearQuarantine()}
+                className="px-3 py-2 rounded-lg bg-[var(--danger)] hover:bg-[var(--dangerHover)] text-white"
+              >
+                Discard
+              </button>
+            </div>
+          </div>
+        )}
+
+        {showRestore && (
+          <BackupImport
+            events={events}
+            onRestore={(preview, choices, withPrefs) => {
+              onRestore(preview, choices, withPrefs);
+              setShowRestore(false);
+            }}
+            onClose={() => setShowRestore(false)}
+          />
+        )}
+
         <div className="mb-4 flex items-center gap-2">
           <input
             className="flex-1 bg-[var(--input)] border border-[var(--border)] rounded-lg px-3 py-2"
@@ -69,6 +145,20 @@ export default function EventManager({
             value={query}
             onChange={(e) => setQuery(e.target.value)}
           />
+          <button
+            onClick={onExportAll}
+            disabled={events.length === 0}
+            className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)] text-sm disabled:opacity-50"
+            title="Download every event and your preferences as one file"
+          >
+            Export all
+          </button>
+          <button
+            onClick={() => setShowRestore((v) => !v)}
+            className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)] text-sm"
+          >
+            Import backup
+          </button>
         </div>
 
         {/* List */}
@@ -1,160 +1,203 @@
-import { useMemo } from "react";
-import type { Athlete, State } from "./types";
+import { useEffect, useMemo, useState } from "react";
+import type {
+  Athlete,
+  Attempt,
+  Discipline,
+  DisciplineKind,
+  DisciplineScoring,
+  DivisionConfig,
+  EID,
+  EventMeta,
+  Lift,
+  RosterAthlete,
+  RunScoring,
+  State,
+  StrengthFormula,
+  TieBreak,
+  WeightUnit,
+} from "./types";
+import { DISCIPLINE_TEMPLATES, LIFT_LABELS, LIFTS, liftsInUse } from "./disciplines";
+import { loadRoster, saveRoster } from "./storage";
+import { applyProfile, athleteFromProfile, profileFromAthlete } from "./roster";
+import { athleteIdentity } from "./season";
+import { collectHistories, isDisciplinePR, type HistorySource } from "./history";
+import { PRBadge } from "./AthleteHistory";
+import { NEXT_STATUS, attemptSlots, liftingOrder, seedAttempts, withAttempt } from "./attempts";
+import { formatBothUnits, formatWeight, fromDisplay } from "./units";
+import WeightInput from "./WeightInput";
+import { DEFAULT_DIVISIONS, buildDivisions, divisionLeaderboard } from "./divisions";
+import { downloadText, resultsToCsv } from "./csv";
+import CsvImport from "./CsvImport";
+import SyncPanel, { type SyncControls } from "./SyncPanel";
+import { explainNoScore, validateEvent, type FieldIssue } from "./validation";
+import { downloadResultsCard, openResultsSheet, type ResultsSheet } from "./resultsExport";
+import { EVENT_SECTIONS, type EventSection } from "./routes";
+import {
+  STRENGTH_FORMULAS,
+  TIE_BREAKS,
+  disciplineNote,
+  disciplineResult,
+  formatPlace,
+  resolvePointsTable,
+  scoreColumn,
+  scoreEvent,
+  stampEntries,
+  toNumber,
+  type Placing,
+  type ScoringContext,
+} from "./scoring";
 
-// ===== Util helpers (DOTS, time parsing, points) =====
 function uid() {
   return Math.random().toString(36).slice(2, 10);
 }
-function parseTimeToSeconds(time: string): number | null {
-  if (!time) return null;
-  const parts = time.split(":").map((p) => p.trim());
-  if (parts.some((p) => p === "" || isNaN(Number(p)))) return null;
-  const nums = parts.map((p) => Number(p));
-  if (nums.length === 1) return nums[0];
-  if (nums.length === 2) return nums[0] * 60 + nums[1];
-  if (nums.length === 3) return nums[0] * 3600 + nums[1] * 60 + nums[2];
-  return null;
-}
-function toNumber(n: any): number | null {
-  if (n === "" || n === null || n === undefined) return null;
-  const v = Number(n);
-  return isNaN(v) ? null : v;
-}
-
-// 5k: neutral performance index (higher = better)
-function runPerformanceIndex(seconds: number | null): number | null {
-  if (!seconds || seconds <= 0) return null;
-  return 780 / seconds;
-}
-
-type SexDOTS = "M" | "F";
-const DOTS_COEFF: Record<SexDOTS, { A: number; B: number; C: number; D: number; E: number; F: number }> = {
-  M: { A: 47.46178854, B: 8.472061379, C: 0.07369410346, D: -0.001395833811, E: 0.00000707665973070743, F: -0.0000000120804336482315 },
-  F: { A: -125.4255398, B: 13.71219419, C: -0.03307250631, D: -0.001050400051, E: 0.00000938773881462799, F: -0.000000023334613884954 },
+// Scoring choices that make sense for each kind of entry
+const SCORINGS_BY_KIND: Record<DisciplineKind, DisciplineScoring[]> = {
+  lifts: ["strength", "raw"],
+  time: ["run5k", "raw"],
+  weight: ["raw"],
+  reps: ["raw"],
+  distance: ["raw"],
+};
+const SCORING_LABELS: Record<DisciplineScoring, string> = {
+  strength: "Strength formula",
+  run5k: "5k scoring",
+  raw: "Raw result",
 };
-function dotsPoints(totalKg: number | null, bodyweightKg: number | null, sex: "M" | "F" | "X"): number | null {
-  if (!totalKg || !bodyweightKg || bodyweightKg <= 0) return null;
-  const s: SexDOTS | null = sex === "F" ? "F" : sex === "M" ? "M" : null;
-  if (!s) return null;
-  const { A, B, C, D, E, F } = DOTS_COEFF[s];
-  const x = bodyweightKg;
-  const denom = A + B * x + C * x ** 2 + D * x ** 3 + E * x ** 4 + F * x ** 5;
-  if (!isFinite(denom) || denom === 0) return null;
-  return (600 / denom) * totalKg;
-}
-
-function allocatePointsByRank(
-  sortedScores: Array<{ id: string; score: number | null }>,
-  pointsTable: number[]
-) {
-  const result: Record<string, number> = {};
-  let i = 0;
-  while (i < sortedScores.length) {
-    const current = sortedScores[i];
-    if (current.score === null) {
-      for (let j = i; j < sortedScores.length; j++) result[sortedScores[j].id] = 0;
-      break;
-    }
-    let j = i + 1;
-    while (j < sortedScores.length && sortedScores[j].score === current.score) j++;
-    let sum = 0;
-    for (let k = i; k < j; k++) sum += pointsTable[k] ?? 0;
-    const perHead = sum / (j - i);
-    for (let k = i; k < j; k++) result[sortedScores[k].id] = perHead;
-    i = j;
-  }
-  return result;
-}
-
-const F1_POINTS = [25, 18, 15, 12, 10, 8, 6, 4, 2, 1];
-const SIMPLE_POINTS = [10, 7, 5, 3, 2, 1];
 
 export default function EventView({
+  eid,
+  events,
   state,
   setState,
   onBack,
   onCopyLink,
+  onOpenDisplay,
+  onUndo,
+  onRedo,
+  canUndo,
+  canRedo,
+  onShowHistory,
+  globalUnits,
+  sync,
+  section,
+  onSection,
 }: {
+  eid: EID;
+  events: EventMeta[];
   state: State;
   setState: (s: State | ((prev: State) => State)) => void;
   onBack: () => void;
   onCopyLink: () => void;
+  onOpenDisplay: () => void; // read-only wall-screen window
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onShowHistory: (identity: string, name: string) => void;
+  globalUnits: WeightUnit;
+  sync: SyncControls;
+  section?: EventSection; // from the URL; scrolled into view
+  onSection: (section: EventSection | undefined) => void;
 }) {
   // Points table
-  const pointsTable = useMemo(() => {
-    if (state.pointsPreset === "F1") return F1_POINTS;
-    if (state.pointsPreset === "Simple") return SIMPLE_POINTS;
-    return state.pointsCustom.length ? state.pointsCustom : SIMPLE_POINTS;
-  }, [state.pointsPreset, state.pointsCustom]);
-
-  const totals = useMemo(() => {
-    return state.athletes.map((a) => ({
-      id: a.id,
-      name: a.name,
-      sex: a.sex,
-      age: a.age,
-      bodyweight: a.bodyweight,
-      squat: a.squat,
-      bench: a.bench,
-      deadlift: a.deadlift,
-      total: (a.squat ?? 0) + (a.bench ?? 0) + (a.deadlift ?? 0),
-      runSeconds: parseTimeToSeconds(a.runTime),
-    }));
-  }, [state.athletes]);
+  const pointsTable = useMemo(() => resolvePointsTable(state), [state]);
 
-  const plScores = useMemo(() => {
-    const rows = totals.map((t) => {
-      const score = dotsPoints(t.total, t.bodyweight ?? null, t.sex as any);
-      return { id: t.id, name: t.name, score };
-    });
-    rows.sort((a, b) => {
-      if (a.score === null && b.score === null) return 0;
-      if (a.score === null) return 1;
-      if (b.score === null) return -1;
-      return (b.score as number) - (a.score as number);
-    });
-    const points = allocatePointsByRank(rows, pointsTable);
-    return { rows, points } as const;
-  }, [totals, pointsTable]);
-
-  const runScores = useMemo(() => {
-    const rows = totals.map((t) => {
-      const score = runPerformanceIndex(t.runSeconds ?? null);
-      return { id: t.id, name: t.name, score };
-    });
-    rows.sort((a, b) => {
-      if (a.score === null && b.score === null) return 0;
-      if (a.score === null) return 1;
-      if (b.score === null) return -1;
-      return (b.score as number) - (a.score as number);
-    });
-    const points = allocatePointsByRank(rows, pointsTable);
-    return { rows, points } as const;
-  }, [totals, pointsTable]);
+  const strengthFormula: StrengthFormula = state.strengthFormula ?? "DOTS";
+  const ageAdjust = state.ageAdjust ?? false;
+  const runScoring: RunScoring = state.runScoring ?? "Time";
+  const tieBreak: TieBreak = state.tieBreak ?? "shared";
+  const participationPoints = state.participationPoints ?? 0;
+  const attemptsMode = state.attemptsMode ?? false;
+  const unit: WeightUnit = state.units ?? globalUnits;
+  const disciplines = state.disciplines;
+  const lifts = useMemo(() => liftsInUse(disciplines), [disciplines]);
 
-  const leaderboard = useMemo(() => {
-    const map: Record<string, { name: string; totalPoints: number; breakdown: { pl: number; run: number } }> = {};
-    state.athletes.forEach((a) => {
-      map[a.id] = { name: a.name, totalPoints: 0, breakdown: { pl: 0, run: 0 } };
-    });
-    Object.entries(plScores.points).forEach(([id, pts]) => {
-      map[id].breakdown.pl += pts;
-      map[id].totalPoints += pts;
+  const ctx = useMemo<ScoringContext>(
+    () => ({ strengthFormula, ageAdjust, runScoring, pointsTable, tieBreak, participationPoints }),
+    [strengthFormula, ageAdjust, runScoring, pointsTable, tieBreak, participationPoints]
+  );
+
+  const { scores, leaderboard } = useMemo(() => scoreEvent(state, ctx), [state, ctx]);
+
+  // Results that beat everything the athlete recorded in earlier events, per discipline.
+  // `events` changes on every autosave (updatedAt), but only which events exist and when they were
+  // held matters here; loading and rescoring them all per keystroke is what this key avoids.
+  const historyKey = useMemo(
+    () => JSON.stringify(events.map(({ eid, title, createdAt }) => ({ eid, title, createdAt }))),
+    [events]
+  );
+  const histories = useMemo(() => collectHistories(JSON.parse(historyKey) as HistorySource[]), [historyKey]);
+  const prIds = useMemo(() => {
+    const out: Record<string, Set<string>> = {};
+    disciplines.forEach((d) => {
+      out[d.id] = new Set(
+        state.athletes
+          .filter((a) => isDisciplinePR(d, a, histories.get(athleteIdentity(a)) ?? [], eid))
+          .map((a) => a.id)
+      );
     });
-    Object.entries(runScores.points).forEach(([id, pts]) => {
-      map[id].breakdown.run += pts;
-      map[id].totalPoints += pts;
+    return out;
+  }, [disciplines, state.athletes, histories, eid]);
+
+  // Entry problems, by `${athleteId}:${field}`; errors win over warnings on the same field
+  const issues = useMemo(() => validateEvent(state, unit), [state, unit]);
+  const issueAt = useMemo(() => {
+    const map = new Map<string, FieldIssue>();
+    issues.forEach((x) => {
+      const key = `${x.athleteId}:${x.field}`;
+      if (!map.has(key) || x.severity === "error") map.set(key, x);
     });
-    const rows = Object.entries(map).map(([id, v]) => ({ id, ...v }));
-    rows.sort((a, b) => b.totalPoints - a.totalPoints);
-    return rows;
-  }, [state.athletes, plScores.points, runScores.points]);
+    return (athleteId: string, field: string) => map.get(`${athleteId}:${field}`);
+  }, [issues]);
+  const errorCount = issues.filter((x) => x.severity === "error").length;
+  const [showIssues, setShowIssues] = useState(true);
+
+  // Before results leave the app, make sure nobody is missing points over a typo
+  function confirmIssues(action: string): boolean {
+    if (!errorCount) return true;
+    return confirm(`${errorCount} entr${errorCount === 1 ? "y" : "ies"} can’t be read, so some athletes may be missing points. ${action} anyway?`);
+  }
+
+  const [showImport, setShowImport] = useState(false);
+
+  useEffect(() => {
+    if (section) document.getElementById(`section-${section}`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+  }, [section]);
+
+  const [roster, setRoster] = useState<RosterAthlete[]>(() => loadRoster());
+  const rosterById = useMemo(() => new Map(roster.map((p) => [p.id, p])), [roster]);
+  const rosterAvailable = useMemo(
+    () =>
+      roster
+        .filter((p) => !state.athletes.some((a) => a.rosterId === p.id))
+        .sort((a, b) => a.name.localeCompare(b.name)),
+    [roster, state.athletes]
+  );
 
   // Mutators
   function updateAthlete(id: string, patch: Partial<Athlete>) {
     setState((s) => ({
       ...s,
-      athletes: s.athletes.map((a) => (a.id === id ? { ...a, ...patch } : a)),
+      athletes: s.athletes.map((a) => (a.id === id ? stampEntries(a, { ...a, ...patch }) : a)),
+    }));
+  }
+  function updateResult(id: string, disciplineId: string, value: string) {
+    setState((s) => ({
+      ...s,
+      athletes: s.athletes.map((a) => (a.id === id ? stampEntries(a, { ...a, results: { ...a.results, [disciplineId]: value } }) : a)),
+    }));
+  }
+  function updateAttempt(id: string, lift: Lift, index: number, patch: Partial<Attempt>) {
+    setState((s) => ({
+      ...s,
+      athletes: s.athletes.map((a) => (a.id === id ? stampEntries(a, withAttempt(a, lift, index, patch)) : a)),
+    }));
+  }
+  function setAttemptsMode(on: boolean) {
+    setState((s) => ({
+      ...s,
+      attemptsMode: on,
+      athletes: on ? s.athletes.map(seedAttempts) : s.athletes,
     }));
   }
   function addAthlete() {
@@ -162,15 +205,44 @@ export default function EventView({
       ...s,
       athletes: [
         ...s.athletes,
-        { id: uid(), name: "New Athlete", sex: "M", age: null, bodyweight: null, squat: null, bench: null, deadlift: null, runTime: "" },
+        { id: uid(), name: "New Athlete", sex: "M", age: null, bodyweight: null, squat: null, bench: null, deadlift: null, results: {} },
       ],
     }));
   }
+  function addFromRoster(rosterId: string) {
+    const p = rosterById.get(rosterId);
+    if (!p) return;
+    setState((s) => ({ ...s, athletes: [...s.athletes, athleteFromProfile(p, uid())] }));
+  }
+  function saveToRoster(a: Athlete) {
+    const p = profileFromAthlete(a, uid());
+    const next = [...roster, p];
+    setRoster(next);
+    saveRoster(next);
+    updateAthlete(a.id, { rosterId: p.id });
+  }
+  function pullFromRoster(a: Athlete) {
+    const p = a.rosterId ? rosterById.get(a.rosterId) : undefined;
+    if (!p) return;
+    setState((s) => ({ ...s, athletes: s.athletes.map((x) => (x.id === a.id ? applyProfile(x, p) : x)) }));
+  }
   function removeAthlete(id: string) {
     setState((s) => ({ ...s, athletes: s.athletes.filter((a) => a.id !== id) }));
   }
+  function importAthletes(imported: Athlete[], replace: boolean) {
+    if (replace && state.athletes.length && !confirm(`Replace all ${state.athletes.length} entrants with the imported list?`)) return;
+    setState((s) => ({ ...s, athletes: replace ? imported : [...s.athletes, ...imported] }));
+    setShowImport(false);
+  }
+  function exportCsv() {
+    downloadText(`${state.title.trim() || "results"}.csv`, resultsToCsv(state));
+  }
+  const resultsSheet = (): ResultsSheet => ({ title: state.title, date: new Date(), unit, ctx, scores, leaderboard });
+  function exportImage() {
+    downloadResultsCard(resultsSheet()).catch((e: Error) => alert(e.message));
+  }
   function clearNumbers() {
-    if (!confirm("Clear all numeric entries? This keeps names but wipes results.")) return;
+    if (!confirm("Clear all numeric entries? This keeps names but wipes results. (Undo brings them back.)")) return;
     setState((s) => ({
       ...s,
       athletes: s.athletes.map((a) => ({
@@ -178,17 +250,90 @@ export default function EventView({
         squat: null,
         bench: null,
         deadlift: null,
-        runTime: "",
+        results: {},
+        attempts: undefined,
       })),
     }));
   }
 
+  function updateDiscipline(id: string, patch: Partial<Discipline>) {
+    // same floor as schema repair, so what's shown is what reloads
+    if (patch.multiplier !== undefined) patch = { ...patch, multiplier: Math.max(0, patch.multiplier) };
+    setState((s) => ({
+      ...s,
+      disciplines: s.disciplines.map((d) => (d.id === id ? { ...d, ...patch } : d)),
+    }));
+  }
+  function addDiscipline(templateIndex: number) {
+    const template = DISCIPLINE_TEMPLATES[templateIndex];
+    if (!template) return;
+    setState((s) => ({ ...s, disciplines: [...s.disciplines, { ...template.discipline, id: uid() }] }));
+  }
+  function removeDiscipline(id: string) {
+    const d = disciplines.find((x) => x.id === id);
+    if (!d || disciplines.length <= 1) return;
+    if (!confirm(`Remove discipline "${d.name}"? Its points leave the leaderboard.`)) return;
+    setState((s) => ({ ...s, disciplines: s.disciplines.filter((x) => x.id !== id) }));
+  }
+  function toggleDisciplineLift(d: Discipline, lift: Lift) {
+    const current = d.lifts ?? [];
+    const next = current.includes(lift) ? current.filter((l) => l !== lift) : [...current, lift];
+    if (next.length === 0) return;
+    updateDiscipline(d.id, { lifts: LIFTS.filter((l) => next.includes(l)) });
+  }
+
   const activePointsTable = useMemo(() => {
     const n = state.athletes.length;
     if (pointsTable.length >= n) return pointsTable.slice(0, n);
     return [...pointsTable, ...Array(Math.max(0, n - pointsTable.length)).fill(0)];
   }, [pointsTable, state.athletes.length]);
 
+  // Presets are read-only; editing one starts a custom table from its values
+  const customPoints = state.pointsPreset === "Custom";
+  function setPointsPreset(preset: State["pointsPreset"]) {
+    setState((s) => ({
+      ...s,
+      pointsPreset: preset,
+      pointsCustom: preset === "Custom" && !s.pointsCustom.length ? [...resolvePointsTable(s)] : s.pointsCustom,
+    }));
+  }
+  function editPoints(edit: (table: number[]) => number[]) {
+    setState((s) => ({ ...s, pointsPreset: "Custom", pointsCustom: edit([...resolvePointsTable(s)]) }));
+  }
+
+  const [orderLift, setOrderLift] = useState<Lift>("squat");
+  const currentOrderLift = lifts.includes(orderLift) ? orderLift : lifts[0];
+  const nextUp = useMemo(
+    () => (attemptsMode && currentOrderLift ? liftingOrder(state.athletes, currentOrderLift) : []),
+    [attemptsMode, currentOrderLift, state.athletes]
+  );
+
+  // Ranking tooltips for lift disciplines show total and bodyweight in both units
+  function liftTitles(d: Discipline): Record<string, string> {
+    const out: Record<string, string> = {};
+    state.athletes.forEach((a) => {
+      out[a.id] = `Total ${formatBothUnits(disciplineResult(d, a))} · BW ${formatBothUnits(a.bodyweight)}`;
+    });
+    return out;
+  }
+
+  const divisionCfg = state.divisions ?? DEFAULT_DIVISIONS;
+  const divisionBoards = useMemo(
+    () =>
+      buildDivisions(state.athletes, divisionCfg, unit).map((division) => ({
+        division,
+        rows: divisionLeaderboard(state, division, ctx, leaderboard, divisionCfg.allocateWithin),
+      })),
+    [state, divisionCfg, ctx, leaderboard, unit]
+  );
+  function updateDivisions(patch: Partial<DivisionConfig>) {
+    setState((s) => ({ ...s, divisions: { ...(s.divisions ?? DEFAULT_DIVISIONS), ...patch } }));
+  }
+
+  const hasStrength = disciplines.some((d) => d.scoring === "strength");
+  const hasRun5k = disciplines.some((d) => d.scoring === "run5k");
+  const entryDisciplines = disciplines.filter((d) => d.kind !== "lifts");
+
   return (
     <div className="min-h-screen bg-[var(--bg)] text-[var(--fg)]">
       <div className="p-4 md:p-6 lg:p-8 max-w-6xl mx-auto">
@@ -208,33 +353,354 @@ export default function EventView({
               placeholder="Event title"
               aria-label="Event title"
             />
+            <button onClick={onUndo} disabled={!canUndo} className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)] disabled:opacity-50" title="Undo (Ctrl+Z)">
+              Undo
+            </button>
+            <button onClick={onRedo} disabled={!canRedo} className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)] disabled:opacity-50" title="Redo (Ctrl+Shift+Z)">
+              Redo
+            </button>
             <button onClick={addAthlete} className="px-3 py-2 rounded-lg bg-[var(--ok)] hover:bg-[var(--okHover)] text-white" title="Add athlete">
               Add athlete
             </button>
+            {rosterAvailable.length > 0 && (
+              <select
+                className="px-3 py-2 rounded-lg bg-[var(--input)] border border-[var(--border)]"
+                value=""
+                onChange={(e) => addFromRoster(e.target.value)}
+                aria-label="Add from roster"
+              >
+                <option value="" disabled>Add from roster…</option>
+                {rosterAvailable.map((p) => (
+                  <option key={p.id} value={p.id}>{p.name}</option>
+                ))}
+              </select>
+            )}
+            <button onClick={() => setShowImport((v) => !v)} className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]" title="Import entrants from CSV or a spreadsheet paste">
+              Import CSV
+            </button>
+            <button onClick={() => confirmIssues("Export") && exportCsv()} className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]" title="Download entrants and results as CSV">
+              Export CSV
+            </button>
+            <button onClick={() => confirmIssues("Print") && openResultsSheet(resultsSheet())} className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]" title="Open a printable results sheet">
+              Print results
+            </button>
+            <button onClick={() => confirmIssues("Export") && exportImage()} className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]" title="Download a podium image for sharing">
+              Results image
+            </button>
+            <button onClick={onOpenDisplay} className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]" title="Open a large-type rankings display for a projector; it updates as you score">
+              Projector
+            </button>
             <button onClick={clearNumbers} className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]" title="Clear numeric results">
               Clear results
             </button>
-            <button onClick={onCopyLink} className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]" title="Copy share link">
+            <button onClick={() => confirmIssues("Share") && onCopyLink()} className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]" title="Copy share link">
               Copy share link
             </button>
           </div>
         </div>
 
+        <SyncPanel sync={sync} />
+
+        <nav className="mb-4 flex flex-wrap gap-2 text-sm" aria-label="Sections">
+          {(Object.keys(EVENT_SECTIONS) as EventSection[]).map((s) => (
+            <button
+              key={s}
+              onClick={() => {
+                onSection(s);
+                document.getElementById(`section-${s}`)?.scrollIntoView({ behavior: "smooth", block: "start" });
+              }}
+              className={`px-2 py-1 rounded ${section === s ? "bg-[var(--accent)] text-white" : "bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]"}`}
+            >
+              {EVENT_SECTIONS[s]}
+            </button>
+          ))}
+        </nav>
+
+        {showImport && (
+          <CsvImport disciplines={disciplines} unit={unit} onImport={importAthletes} onClose={() => setShowImport(false)} />
+        )}
+
         {/* Help / how-to */}
         <div className="mb-6 rounded-2xl border border-[var(--border)] bg-[var(--card)] p-4 text-sm leading-6">
           <div className="font-semibold mb-2">How to use</div>
           <ol className="list-decimal ml-5 space-y-1">
-            <li><b>Enter each person:</b> Name, <b>Sex</b> (<u>M or F</u> for DOTS), <b>Bodyweight (kg)</b>, and best single <b>Squat</b>, <b>Bench</b>, <b>Deadlift</b> for the month.</li>
-            <li><b>5k time:</b> Type <code>mm:ss</code> or <code>hh:mm:ss</code>. The 5k event ranks by time (faster = better).</li>
-            <li><b>Points:</b> Choose F1 (25-18-15-…) or Simple (10-7-5-…). Custom lets you paste your own comma-separated list.</li>
+            <li><b>Pick disciplines:</b> Each event has its own list (default: strength total and 5k). Add a row 2k, max pull-ups, bench only…</li>
+            <li><b>Enter each person:</b> Name, <b>Sex</b> (<u>M or F</u> for DOTS/Wilks/IPF GL/Glossbrenner), <b>Bodyweight</b>, and best single of each lift used this month.</li>
+            <li><b>Meet day:</b> Tick <i>Meet attempts</i> to enter three attempts per lift and judge each one; the best good attempt counts.</li>
+            <li><b>Times:</b> Type <code>mm:ss</code> or <code>hh:mm:ss</code>. Timed disciplines rank faster = better unless you change it.</li>
+            <li><b>Points:</b> Choose F1 (25-18-15-…) or Simple (10-7-5-…), or edit any place to make a custom table. A multiplier makes a discipline count more (or less) in the leaderboard.</li>
           </ol>
           <div className="mt-3 text-xs opacity-80">
-            Note: DOTS requires <b>M</b> or <b>F</b>; if set to <b>X</b> (or missing bodyweight/any lift), that athlete won’t score in strength.
+            Note: DOTS, Wilks, IPF GL and Glossbrenner require <b>M</b> or <b>F</b>; if set to <b>X</b> (or missing bodyweight/any lift), that athlete won’t score in strength. Raw total and total/BW score everyone.
           </div>
         </div>
 
+        {/* Disciplines */}
+        <div className="mb-6 rounded-2xl border border-[var(--border)] bg-[var(--card)] p-4 text-sm">
+          <h2 className="font-semibold mb-3">Disciplines</h2>
+          <div className="grid gap-2">
+            {disciplines.map((d) => (
+              <div key={d.id} className="flex flex-wrap items-center gap-2">
+                <input
+                  className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-40"
+                  value={d.name}
+                  onChange={(e) => updateDiscipline(d.id, { name: e.target.value })}
+                  aria-label="Discipline name"
+                />
+                <span className="text-xs opacity-70 w-16">{d.kind}</span>
+                {d.kind === "lifts" ? (
+                  LIFTS.map((l) => (
+                    <label key={l} className="flex items-center gap-1">
+                      <input type="checkbox" checked={(d.lifts ?? []).includes(l)} onChange={() => toggleDisciplineLift(d, l)} />
+                      {LIFT_LABELS[l]}
+                    </label>
+                  ))
+                ) : (
+                  <input
+                    className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-20"
+                    value={d.unit}
+                    onChange={(e) => updateDiscipline(d.id, { unit: e.target.value })}
+                    placeholder="unit"
+                    aria-label="Unit"
+                  />
+                )}
+                <select
+                  className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1"
+                  value={d.scoring}
+                  onChange={(e) => updateDiscipline(d.id, { scoring: e.target.value as DisciplineScoring })}
+                  title="Scoring"
+                >
+                  {SCORINGS_BY_KIND[d.kind].map((sc) => (
+                    <option key={sc} value={sc}>{SCORING_LABELS[sc]}</option>
+                  ))}
+                </select>
+                {d.scoring === "raw" && (
+                  <select
+                    className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1"
+                    value={d.better}
+                    onChange={(e) => updateDiscipline(d.id, { better: e.target.value as Discipline["better"] })}
+                    title="Which direction wins"
+                  >
+                    <option value="higher">Higher is better</option>
+                    <option value="lower">Lower is better</option>
+                  </select>
+                )}
+                <label className="flex items-center gap-1" title="Multiplies this discipline's points in the leaderboard, e.g. 1.5 to make it count more">
+                  ×
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.1"
+                    className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-16"
+                    value={d.multiplier ?? ""}
+                    onChange={(e) => updateDiscipline(d.id, { multiplier: toNumber(e.target.value) ?? undefined })}
+                    placeholder="1"
+                    aria-label="Points multiplier"
+                  />
+                </label>
+                <button
+                  onClick={() => removeDiscipline(d.id)}
+                  disabled={disciplines.length <= 1}
+                  className="px-2 py-1 bg-[var(--danger)] hover:bg-[var(--dangerHover)] text-white rounded disabled:opacity-50"
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="mt-3 flex items-center gap-2">
+            <select
+              className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1"
+              value=""
+              onChange={(e) => addDiscipline(Number(e.target.value))}
+              aria-label="Add discipline"
+            >
+              <option value="" disabled>Add discipline…</option>
+              {DISCIPLINE_TEMPLATES.map((t, i) => (
+                <option key={t.label} value={i}>{t.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Scoring settings */}
+        {disciplines.length > 0 && (
+          <div className="mb-6 rounded-2xl border border-[var(--border)] bg-[var(--card)] p-4 text-sm flex flex-wrap items-center gap-3">
+            {hasStrength && (
+              <>
+                <label className="flex items-center gap-2">
+                  <span className="font-semibold">Strength formula</span>
+                  <select
+                    className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1"
+                    value={strengthFormula}
+                    onChange={(e) => setState((s) => ({ ...s, strengthFormula: e.target.value as StrengthFormula }))}
+                  >
+                    {(Object.keys(STRENGTH_FORMULAS) as StrengthFormula[]).map((f) => (
+                      <option key={f} value={f}>{STRENGTH_FORMULAS[f].label}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex items-center gap-2" title="Multiply strength scores by junior (14–23) / masters (40+) age coefficients">
+                  <input
+                    type="checkbox"
+                    checked={ageAdjust}
+                    onChange={(e) => setState((s) => ({ ...s, ageAdjust: e.target.checked }))}
+                  />
+                  <span>Age-adjust strength (juniors &amp; masters)</span>
+                </label>
+              </>
+            )}
+            {hasRun5k && (
+              <label className="flex items-center gap-2">
+                <span className="font-semibold">5k scoring</span>
+                <select
+                  className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1"
+                  value={runScoring}
+                  onChange={(e) => setState((s) => ({ ...s, runScoring: e.target.value as RunScoring }))}
+                >
+                  <option value="Time">Raw time</option>
+                  <option value="AgeGraded">Age graded (sex &amp; age)</option>
+                </select>
+              </label>
+            )}
+            <label className="flex items-center gap-2" title={TIE_BREAKS[tieBreak].note}>
+              <span className="font-semibold">Ties</span>
+              <select
+                className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1"
+                value={tieBreak}
+                onChange={(e) => setState((s) => ({ ...s, tieBreak: e.target.value as TieBreak }))}
+              >
+                {(Object.keys(TIE_BREAKS) as TieBreak[]).map((t) => (
+                  <option key={t} value={t}>{TIE_BREAKS[t].label}</option>
+                ))}
+              </select>
+            </label>
+            {lifts.length > 0 && (
+              <label className="flex items-center gap-2" title="Weights are stored in kg; this only changes entry and display">
+                <span className="font-semibold">Units</span>
+                <select
+                  className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1"
+                  value={state.units ?? ""}
+                  onChange={(e) => setState((s) => ({ ...s, units: (e.target.value || undefined) as WeightUnit | undefined }))}
+                >
+                  <option value="">Default ({globalUnits})</option>
+                  <option value="kg">kg</option>
+                  <option value="lb">lb</option>
+                </select>
+              </label>
+            )}
+            {lifts.length > 0 && (
+              <label className="flex items-center gap-2" title="Enter up to three judged attempts per lift; the best good attempt counts">
+                <input type="checkbox" checked={attemptsMode} onChange={(e) => setAttemptsMode(e.target.checked)} />
+                <span>Meet attempts (3 per lift)</span>
+              </label>
+            )}
+          </div>
+        )}
+
+        {/* Points table */}
+        <div className="mb-6 rounded-2xl border border-[var(--border)] bg-[var(--card)] p-4 text-sm">
+          <div className="mb-3 flex flex-wrap items-center gap-3">
+            <h2 className="font-semibold">Points table</h2>
+            <select
+              className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1"
+              value={state.pointsPreset}
+              onChange={(e) => setPointsPreset(e.target.value as State["pointsPreset"])}
+              aria-label="Points preset"
+            >
+              <option value="F1">F1 (25-18-15-…)</option>
+              <option value="Simple">Simple (10-7-5-…)</option>
+              <option value="Custom">Custom</option>
+            </select>
+            <label className="flex items-center gap-2" title="Anyone who records a result gets at least this many points in that discipline">
+              <span>Participation points</span>
+              <input
+                type="number"
+                min="0"
+                className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-20"
+                value={state.participationPoints ?? ""}
+                onChange={(e) => setState((s) => ({ ...s, participationPoints: toNumber(e.target.value) || undefined }))}
+                placeholder="0"
+              />
+            </label>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            {pointsTable.map((pts, i) => (
+              <div key={i} className="flex flex-col items-center gap-1 rounded-lg border border-[var(--border)] p-2 w-20">
+                <span className="text-xs opacity-70">{ordinal(i + 1)}</span>
+                {customPoints ? (
+                  <input
+                    type="number"
+                    min="0"
+                    className="bg-[var(--input)] border border-[var(--border)] rounded px-1 py-1 w-16 text-center"
+                    value={pts}
+                    onChange={(e) => editPoints((t) => t.map((p, j) => (j === i ? toNumber(e.target.value) ?? 0 : p)))}
+                    aria-label={`Points for ${ordinal(i + 1)}`}
+                  />
+                ) : (
+                  <button onClick={() => editPoints((t) => t)} className="font-semibold hover:opacity-80" title="Edit as a custom table">
+                    {pts}
+                  </button>
+                )}
+              </div>
+            ))}
+            <button
+              onClick={() => editPoints((t) => [...t, 0])}
+              className="px-2 py-1 rounded bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]"
+            >
+              + Place
+            </button>
+            <button
+              onClick={() => editPoints((t) => t.slice(0, -1))}
+              disabled={pointsTable.length <= 1}
+              className="px-2 py-1 rounded bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)] disabled:opacity-50"
+            >
+              − Place
+            </button>
+          </div>
+          {activePointsTable.length > 0 && (
+            <p className="text-xs opacity-70 mt-3">
+              With {activePointsTable.length} entrant{activePointsTable.length === 1 ? "" : "s"}, places score{" "}
+              {activePointsTable.map((p) => Math.max(p, participationPoints)).join(" · ")} per discipline
+              {disciplines.some((d) => (d.multiplier ?? 1) !== 1) ? ", before multipliers" : ""}.
+              {pointsTable.length < activePointsTable.length &&
+                ` Places past ${ordinal(pointsTable.length)} get ${participationPoints ? "only participation points" : "nothing"}.`}
+            </p>
+          )}
+        </div>
+
+        {/* Entry problems */}
+        {issues.length > 0 && (
+          <div className="mb-6 rounded-2xl border border-[var(--border)] bg-[var(--card)] p-4 text-sm">
+            <div className="flex flex-wrap items-center gap-3">
+              <h2 className="font-semibold">Check before sharing</h2>
+              <span className={errorCount ? "text-[var(--danger)]" : "opacity-80"}>
+                {errorCount ? `${errorCount} error${errorCount === 1 ? "" : "s"}, ` : ""}
+                {issues.length - errorCount} warning{issues.length - errorCount === 1 ? "" : "s"}
+              </span>
+              <button onClick={() => setShowIssues((v) => !v)} className="ml-auto px-2 py-1 rounded bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]">
+                {showIssues ? "Hide" : "Show"}
+              </button>
+            </div>
+            {showIssues && (
+              <ul className="mt-3 space-y-1">
+                {issues.map((x) => (
+                  <li key={`${x.athleteId}:${x.field}:${x.message}`} className="flex gap-2">
+                    <span className={x.severity === "error" ? "text-[var(--danger)]" : "text-yellow-600"}>{x.severity === "error" ? "✗" : "!"}</span>
+                    <span>
+                      <b>{state.athletes.find((a) => a.id === x.athleteId)?.name || "Unnamed athlete"}</b>
+                      {" · "}
+                      {fieldLabel(x.field, disciplines)}: {x.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Athletes - Desktop table (keep your mobile cards if added) */}
-        <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-4 mb-8 overflow-x-auto">
+        <div id="section-entrants" className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-4 mb-8 overflow-x-auto">
           <h2 className="font-semibold mb-4">Entrants</h2>
           <table className="min-w-full text-sm">
             <thead className="text-left opacity-80">
@@ -242,11 +708,13 @@ export default function EventView({
                 <th className="py-2 pr-3">Name</th>
                 <th className="py-2 pr-3">Sex</th>
                 <th className="py-2 pr-3">Age</th>
-                <th className="py-2 pr-3">BW (kg)</th>
-                <th className="py-2 pr-3">Squat</th>
-                <th className="py-2 pr-3">Bench</th>
-                <th className="py-2 pr-3">Deadlift</th>
-                <th className="py-2 pr-3">5k Time</th>
+                <th className="py-2 pr-3">BW ({unit})</th>
+                {lifts.map((l) => (
+                  <th key={l} className="py-2 pr-3">{LIFT_LABELS[l]} ({unit})</th>
+                ))}
+                {entryDisciplines.map((d) => (
+                  <th key={d.id} className="py-2 pr-3">{d.name}{d.unit ? ` (${d.unit})` : ""}</th>
+                ))}
                 <th className="py-2 pr-3"></th>
               </tr>
             </thead>
@@ -254,7 +722,7 @@ export default function EventView({
               {state.athletes.map((a) => (
                 <tr key={a.id} className="border-t border-[var(--border)]">
                   <td className="py-2 pr-3">
-                    <input className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-40" value={a.name} onChange={(e) => updateAthlete(a.id, { name: e.target.value })} placeholder="Name" />
+                    <input className={`bg-[var(--input)] border ${issueBorder(issueAt(a.id, "name"))} rounded px-2 py-1 w-40`} value={a.name} onChange={(e) => updateAthlete(a.id, { name: e.target.value })} placeholder="Name" />
                   </td>
                   <td className="py-2 pr-3">
                     <select className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1" value={a.sex} onChange={(e) => updateAthlete(a.id, { sex: e.target.value as any })} title="DOTS requires M or F">
@@ -264,67 +732,188 @@ export default function EventView({
                     </select>
                   </td>
                   <td className="py-2 pr-3">
-                    <input type="number" className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-20" value={a.age ?? ""} onChange={(e) => updateAthlete(a.id, { age: toNumber(e.target.value) })} placeholder="Age" />
-                  </td>
-                  <td className="py-2 pr-3">
-                    <input type="number" className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-24" value={a.bodyweight ?? ""} onChange={(e) => updateAthlete(a.id, { bodyweight: toNumber(e.target.value) })} placeholder="kg" />
-                  </td>
-                  <td className="py-2 pr-3">
-                    <input type="number" className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-24" value={a.squat ?? ""} onChange={(e) => updateAthlete(a.id, { squat: toNumber(e.target.value) })} placeholder="kg" />
+                    <input type="number" className={`bg-[var(--input)] border ${issueBorder(issueAt(a.id, "age"))} rounded px-2 py-1 w-20`} value={a.age ?? ""} onChange={(e) => updateAthlete(a.id, { age: toNumber(e.target.value) })} placeholder="Age" />
+                    <FieldNote issue={issueAt(a.id, "age")} />
                   </td>
                   <td className="py-2 pr-3">
-                    <input type="number" className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-24" value={a.bench ?? ""} onChange={(e) => updateAthlete(a.id, { bench: toNumber(e.target.value) })} placeholder="kg" />
+                    <WeightInput className={`bg-[var(--input)] border ${issueBorder(issueAt(a.id, "bodyweight"))} rounded px-2 py-1 w-24`} kg={a.bodyweight} unit={unit} onChange={(kg) => updateAthlete(a.id, { bodyweight: kg })} />
+                    <FieldNote issue={issueAt(a.id, "bodyweight")} />
                   </td>
+                  {lifts.map((l) => (
+                    <td key={l} className="py-2 pr-3">
+                      {attemptsMode ? (
+                        <div className="flex gap-1" title={`Best good attempt: ${formatBothUnits(a[l])}`}>
+                          {attemptSlots(a, l).map((t, i) => (
+                            <div key={i} className="flex flex-col items-stretch">
+                              <WeightInput
+                                className={`bg-[var(--input)] border rounded px-1 py-1 w-16 ${
+                                  t.status === "good" ? "border-[var(--ok)]" : t.status === "nolift" ? "border-[var(--danger)] line-through" : "border-[var(--border)]"
+                                }`}
+                                kg={t.weight}
+                                unit={unit}
+                                plates
+                                onChange={(kg) => updateAttempt(a.id, l, i, { weight: kg })}
+                                placeholder={`#${i + 1}`}
+                                aria-label={`${LIFT_LABELS[l]} attempt ${i + 1}`}
+                              />
+                              <button
+                                onClick={() => updateAttempt(a.id, l, i, { status: NEXT_STATUS[t.status] })}
+                                className={`mt-0.5 text-[10px] rounded ${
+                                  t.status === "good"
+                                    ? "bg-[var(--ok)] text-white"
+                                    : t.status === "nolift"
+                                      ? "bg-[var(--danger)] text-white"
+                                      : "bg-[var(--mutedBtn)]"
+                                }`}
+                                title="Click to cycle: pending → good → no lift"
+                              >
+                                {t.status === "good" ? "Good" : t.status === "nolift" ? "No lift" : "Pending"}
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <WeightInput className={`bg-[var(--input)] border ${issueBorder(issueAt(a.id, l))} rounded px-2 py-1 w-24`} kg={a[l]} unit={unit} plates onChange={(kg) => updateAthlete(a.id, { [l]: kg })} />
+                      )}
+                      <FieldNote issue={issueAt(a.id, l)} />
+                    </td>
+                  ))}
+                  {entryDisciplines.map((d) => (
+                    <td key={d.id} className="py-2 pr-3">
+                      {d.kind === "time" ? (
+                        <input className={`bg-[var(--input)] border ${issueBorder(issueAt(a.id, `results.${d.id}`))} rounded px-2 py-1 w-28`} value={a.results[d.id] ?? ""} onChange={(e) => updateResult(a.id, d.id, e.target.value)} placeholder="mm:ss" />
+                      ) : (
+                        <input type="number" className={`bg-[var(--input)] border ${issueBorder(issueAt(a.id, `results.${d.id}`))} rounded px-2 py-1 w-24`} value={a.results[d.id] ?? ""} onChange={(e) => updateResult(a.id, d.id, e.target.value)} placeholder={d.unit} />
+                      )}
+                      <FieldNote issue={issueAt(a.id, `results.${d.id}`)} />
+                    </td>
+                  ))}
                   <td className="py-2 pr-3">
-                    <input type="number" className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-24" value={a.deadlift ?? ""} onChange={(e) => updateAthlete(a.id, { deadlift: toNumber(e.target.value) })} placeholder="kg" />
-                  </td>
-                  <td className="py-2 pr-3">
-                    <input className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-28" value={a.runTime} onChange={(e) => updateAthlete(a.id, { runTime: e.target.value })} placeholder="mm:ss" />
-                  </td>
-                  <td className="py-2 pr-3">
-                    <button onClick={() => removeAthlete(a.id)} className="px-2 py-1 bg-[var(--danger)] hover:bg-[var(--dangerHover)] text-white rounded">Remove</button>
+                    <div className="flex gap-2">
+                      {a.rosterId && rosterById.has(a.rosterId) ? (
+                        <button onClick={() => pullFromRoster(a)} className="px-2 py-1 rounded bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)] whitespace-nowrap" title="Reload name, sex, age and bodyweight from the roster profile">
+                          ↻ Roster
+                        </button>
+                      ) : (
+                        <button onClick={() => saveToRoster(a)} className="px-2 py-1 rounded bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)] whitespace-nowrap" title="Create a roster profile from this entrant and link it">
+                          Save to roster
+                        </button>
+                      )}
+                      <button onClick={() => removeAthlete(a.id)} className="px-2 py-1 bg-[var(--danger)] hover:bg-[var(--dangerHover)] text-white rounded">Remove</button>
+                    </div>
                   </td>
                 </tr>
               ))}
             </tbody>
           </table>
           <p className="text-xs opacity-70 mt-3">
-            Data autosaves. Ties share the average of the tied places’ points.
+            Data autosaves. {TIE_BREAKS[tieBreak].note}
           </p>
         </div>
 
-        {/* Rankings */}
-        <div className="grid md:grid-cols-2 gap-4 md:gap-6 mb-6">
-          <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-4">
-            <h2 className="font-semibold mb-3">Strength event (total S+B+D)</h2>
-            <RankingTable rows={plScores.rows} points={plScores.points} note={"Ranking by DOTS points (auto)."} />
-          </div>
-          <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-4">
-            <h2 className="font-semibold mb-3">5k event</h2>
-            <RankingTable rows={runScores.rows} points={runScores.points} note={"Ranking by 5k time (faster is better)."} />
+        {/* Lifting order (attempts mode) */}
+        {attemptsMode && currentOrderLift && (
+          <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-4 mb-8">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+              <h2 className="font-semibold">Next up</h2>
+              <div className="flex gap-1">
+                {lifts.map((l) => (
+                  <button
+                    key={l}
+                    onClick={() => setOrderLift(l)}
+                    className={`px-3 py-1 rounded text-sm ${
+                      l === currentOrderLift ? "bg-[var(--accent)] text-white" : "bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]"
+                    }`}
+                  >
+                    {LIFT_LABELS[l]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {nextUp.length === 0 ? (
+              <p className="text-sm opacity-70">No pending {LIFT_LABELS[currentOrderLift].toLowerCase()} attempts with a requested weight.</p>
+            ) : (
+              <table className="min-w-full text-sm">
+                <thead className="text-left opacity-80">
+                  <tr>
+                    <th className="py-2 pr-3">#</th>
+                    <th className="py-2 pr-3">Athlete</th>
+                    <th className="py-2 pr-3">Attempt</th>
+                    <th className="py-2 pr-3">Weight ({unit})</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {nextUp.map((n, idx) => (
+                    <tr key={n.athleteId} className={`border-t border-[var(--border)] ${idx === 0 ? "font-semibold" : ""}`}>
+                      <td className="py-2 pr-3">{idx === 0 ? "▶" : idx + 1}</td>
+                      <td className="py-2 pr-3">{n.name}</td>
+                      <td className="py-2 pr-3">{n.attempt}</td>
+                      <td className="py-2 pr-3" title={formatBothUnits(n.weight)}>{formatWeight(n.weight, unit, false)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+            <p className="text-xs opacity-70 mt-3">Ordered by requested weight, then attempt number, then lighter bodyweight.</p>
           </div>
+        )}
+
+        {/* Rankings */}
+        <div id="section-rankings" className="grid md:grid-cols-2 gap-4 md:gap-6 mb-6">
+          {scores.map(({ discipline: d, rows, points, places }) => (
+            <div key={d.id} className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-4">
+              <h2 className="font-semibold mb-3">{d.name}</h2>
+              <RankingTable
+                rows={rows}
+                points={points}
+                places={places}
+                scoreLabel={scoreColumn(d, ctx, unit).label}
+                rawLabel={d.scoring === "strength" && ageAdjust ? scoreColumn(d, { ...ctx, ageAdjust: false }, unit).label : undefined}
+                formatScore={scoreColumn(d, ctx, unit).format}
+                titles={d.kind === "lifts" ? liftTitles(d) : undefined}
+                prIds={prIds[d.id]}
+                reasons={Object.fromEntries(
+                  rows.filter((r) => r.score === null).map((r) => [r.id, explainNoScore(d, state.athletes.find((a) => a.id === r.id)!, ctx)])
+                )}
+                note={disciplineNote(d, ctx)}
+              />
+            </div>
+          ))}
         </div>
 
         {/* Leaderboard */}
-        <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-4">
+        <div id="section-leaderboard" className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-4">
           <h2 className="font-semibold mb-3">Monthly leaderboard</h2>
           <table className="min-w-full text-sm">
             <thead className="text-left opacity-80">
               <tr>
                 <th className="py-2 pr-3">Place</th>
                 <th className="py-2 pr-3">Athlete</th>
-                <th className="py-2 pr-3">Strength pts</th>
-                <th className="py-2 pr-3">5k pts</th>
+                {disciplines.map((d) => (
+                  <th key={d.id} className="py-2 pr-3">{d.name} pts</th>
+                ))}
                 <th className="py-2 pr-3">Total pts</th>
               </tr>
             </thead>
             <tbody>
-              {leaderboard.map((row, idx) => (
+              {leaderboard.map((row) => (
                 <tr key={row.id} className="border-t border-[var(--border)]">
-                  <td className="py-2 pr-3">{idx + 1}</td>
-                  <td className="py-2 pr-3">{row.name}</td>
-                  <td className="py-2 pr-3">{row.breakdown.pl.toFixed(1)}</td>
-                  <td className="py-2 pr-3">{row.breakdown.run.toFixed(1)}</td>
+                  <td className="py-2 pr-3">{formatPlace(row)}</td>
+                  <td className="py-2 pr-3">
+                    <button
+                      onClick={() => {
+                        const a = state.athletes.find((x) => x.id === row.id);
+                        if (a) onShowHistory(athleteIdentity(a), a.name);
+                      }}
+                      className="underline decoration-dotted hover:opacity-80"
+                      title="Show progress history"
+                    >
+                      {row.name}
+                    </button>
+                  </td>
+                  {disciplines.map((d) => (
+                    <td key={d.id} className="py-2 pr-3">{(row.breakdown[d.id] ?? 0).toFixed(1)}</td>
+                  ))}
                   <td className="py-2 pr-3 font-semibold">{row.totalPoints.toFixed(1)}</td>
                 </tr>
               ))}
@@ -333,23 +922,193 @@ export default function EventView({
           <div className="mt-6 text-xs opacity-80 leading-relaxed">
             <p className="mb-1 font-semibold">Scoring recap</p>
             <ul className="list-disc ml-5 space-y-1">
-              <li><b>DOTS</b> from Sex (M/F), Bodyweight kg, and total (S+B+D).</li>
-              <li><b>5k</b> ranks by raw time; we convert time to a neutral index to apply your points table.</li>
+              {hasStrength && (
+                <li><b>{STRENGTH_FORMULAS[strengthFormula].label}</b> from Sex (M/F), Bodyweight kg, and the discipline’s lift total.</li>
+              )}
+              {hasRun5k &&
+                (runScoring === "AgeGraded" ? (
+                  <li><b>5k</b> ranks by age-graded percentage from Sex (M/F), Age and time; X entrants don’t score.</li>
+                ) : (
+                  <li><b>5k</b> ranks by raw time; we convert time to a neutral index to apply your points table.</li>
+                ))}
+              {disciplines.some((d) => d.scoring === "raw") && (
+                <li><b>Raw</b> disciplines rank by the entered value in the chosen direction.</li>
+              )}
             </ul>
           </div>
         </div>
+
+        {/* Divisions */}
+        <div id="section-divisions" className="mt-6 bg-[var(--card)] border border-[var(--border)] rounded-2xl p-4">
+          <h2 className="font-semibold mb-3">Divisions</h2>
+          <div className="flex flex-wrap items-center gap-3 text-sm mb-4">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={divisionCfg.bySex} onChange={(e) => updateDivisions({ bySex: e.target.checked })} />
+              <span>By sex</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <span>Age classes</span>
+              <select
+                className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1"
+                value={divisionCfg.ageClasses}
+                onChange={(e) => updateDivisions({ ageClasses: e.target.value as DivisionConfig["ageClasses"] })}
+              >
+                <option value="none">None</option>
+                <option value="IPF">IPF (sub-junior … masters 4)</option>
+                <option value="custom">Custom</option>
+              </select>
+            </label>
+            {divisionCfg.ageClasses === "custom" && (
+              <BoundsInput
+                values={divisionCfg.ageBounds}
+                onChange={(ageBounds) => updateDivisions({ ageBounds })}
+                placeholder="40, 50, 60"
+                label="Age class lower bounds"
+              />
+            )}
+            <label className="flex items-center gap-2">
+              <span>Weight classes</span>
+              <select
+                className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1"
+                value={divisionCfg.weightClasses}
+                onChange={(e) => updateDivisions({ weightClasses: e.target.value as DivisionConfig["weightClasses"] })}
+              >
+                <option value="none">None</option>
+                <option value="IPF">IPF</option>
+                <option value="custom">Custom</option>
+              </select>
+            </label>
+            {divisionCfg.weightClasses === "custom" && (
+              <BoundsInput
+                values={divisionCfg.weightBounds}
+                onChange={(weightBounds) => updateDivisions({ weightBounds })}
+                placeholder={unit === "lb" ? "140, 180, 230" : "63, 83, 105"}
+                label={`Weight class upper limits (${unit})`}
+                unit={unit}
+              />
+            )}
+            <label className="flex items-center gap-2" title="Rank each division on its own and give its places the full points table">
+              <input type="checkbox" checked={divisionCfg.allocateWithin} onChange={(e) => updateDivisions({ allocateWithin: e.target.checked })} />
+              <span>Allocate points within divisions</span>
+            </label>
+          </div>
+          {divisionBoards.length === 0 ? (
+            <p className="text-sm opacity-70">Pick a grouping above to see “best female”, masters or weight-class winners.</p>
+          ) : (
+            <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-4">
+              {divisionBoards.map(({ division, rows }) => (
+                <div key={division.id} className="rounded-xl border border-[var(--border)] p-3">
+                  <h3 className="font-semibold mb-2 text-sm">{division.label}</h3>
+                  <table className="min-w-full text-sm">
+                    <tbody>
+                      {rows.map((row) => (
+                        <tr key={row.id} className="border-t border-[var(--border)] first:border-t-0">
+                          <td className="py-1 pr-3 w-8">{formatPlace(row)}</td>
+                          <td className="py-1 pr-3">{row.name}</td>
+                          <td className="py-1 pr-3 text-right font-semibold">{row.totalPoints.toFixed(1)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+          <p className="text-xs opacity-70 mt-3">
+            {divisionCfg.allocateWithin
+              ? "Points are re-allocated inside each division, so a division winner gets first-place points."
+              : "Division tables reuse the overall points; only the ranking is filtered."}
+          </p>
+        </div>
       </div>
     </div>
   );
 }
 
+// Comma-separated number list, parsed when the field loses focus
+function BoundsInput({
+  values,
+  onChange,
+  placeholder,
+  label,
+  unit,
+}: {
+  values: number[];
+  onChange: (values: number[]) => void;
+  placeholder: string;
+  label: string;
+  unit?: WeightUnit; // weights: shown and entered in this unit, stored in kg
+}) {
+  const shown = values.map((v) => (unit ? formatWeight(v, unit, false) : String(v))).join(", ");
+  return (
+    <input
+      key={shown}
+      className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-36"
+      defaultValue={shown}
+      onBlur={(e) =>
+        onChange(
+          e.target.value
+            .split(/[,\s]+/)
+            .map((v) => Number(v))
+            .filter((n) => isFinite(n) && n > 0)
+            .map((n) => (unit ? fromDisplay(n, unit) : n))
+        )
+      }
+      placeholder={placeholder}
+      aria-label={label}
+      title={label}
+    />
+  );
+}
+
+// Input border for the worst issue on a field
+function issueBorder(issue: FieldIssue | undefined): string {
+  return issue?.severity === "error" ? "border-[var(--danger)]" : issue ? "border-yellow-500" : "border-[var(--border)]";
+}
+
+function FieldNote({ issue }: { issue: FieldIssue | undefined }) {
+  if (!issue) return null;
+  return (
+    <div className={`mt-0.5 max-w-[12rem] text-xs ${issue.severity === "error" ? "text-[var(--danger)]" : "text-yellow-600"}`}>{issue.message}</div>
+  );
+}
+
+function fieldLabel(field: string, disciplines: Discipline[]): string {
+  if (field.startsWith("results.")) {
+    const id = field.slice("results.".length);
+    return disciplines.find((d) => d.id === id)?.name ?? id;
+  }
+  if (field in LIFT_LABELS) return LIFT_LABELS[field as Lift];
+  return { name: "Name", age: "Age", bodyweight: "Bodyweight" }[field] ?? field;
+}
+
+function ordinal(n: number): string {
+  const tens = n % 100;
+  const suffix = tens >= 11 && tens <= 13 ? "th" : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
 function RankingTable({
   rows,
   points,
+  places,
+  scoreLabel,
+  rawLabel,
+  formatScore = (n) => n.toFixed(3),
+  prIds,
+  titles,
+  reasons,
   note,
 }: {
-  rows: { id: string; name: string; score: number | null }[];
+  rows: { id: string; name: string; score: number | null; raw?: number | null }[];
   points: Record<string, number>;
+  places: Record<string, Placing>; // only athletes with a score
+  scoreLabel: string;
+  rawLabel?: string; // when set, an extra column shows the unadjusted score
+  formatScore?: (n: number) => string;
+  prIds?: Set<string>; // athletes whose result here is a personal record
+  titles?: Record<string, string>; // tooltip on the score cell, by athlete id
+  reasons?: Record<string, string>; // why an athlete without a score didn't score, by id
   note: string;
 }) {
   return (
@@ -359,16 +1118,23 @@ function RankingTable({
           <tr>
             <th className="py-2 pr-3">Place</th>
             <th className="py-2 pr-3">Athlete</th>
-            <th className="py-2 pr-3">Score</th>
+            {rawLabel && <th className="py-2 pr-3">{rawLabel}</th>}
+            <th className="py-2 pr-3">{scoreLabel}</th>
             <th className="py-2 pr-3">Points</th>
           </tr>
         </thead>
         <tbody>
-          {rows.map((r, idx) => (
+          {rows.map((r) => (
             <tr key={r.id} className="border-t border-[var(--border)]">
-              <td className="py-2 pr-3">{idx + 1}</td>
-              <td className="py-2 pr-3">{r.name}</td>
-              <td className="py-2 pr-3">{r.score === null ? "—" : r.score.toFixed(3)}</td>
+              <td className="py-2 pr-3">{formatPlace(places[r.id])}</td>
+              <td className="py-2 pr-3">
+                {r.name}
+                {prIds?.has(r.id) && <PRBadge />}
+              </td>
+              {rawLabel && <td className="py-2 pr-3 opacity-70">{r.raw == null ? "—" : formatScore(r.raw)}</td>}
+              <td className="py-2 pr-3" title={titles?.[r.id]}>
+                {r.score !== null ? formatScore(r.score) : reasons?.[r.id] ? <span className="text-xs opacity-70">— {reasons[r.id]}</span> : "—"}
+              </td>
               <td className="py-2 pr-3 font-semibold">{points[r.id]?.toFixed(1) ?? "0.0"}</td>
             </tr>
           ))}
@@ -0,0 +1,149 @@
+import { useMemo, useState } from "react";
+import type { Attempt, Discipline, State, WeightUnit } from "./types";
+import { applyMerge, diffEvents, resolveAll, type FieldDiff, type MergeResolution, type MergeSide } from "./merge";
+import { formatWeight } from "./units";
+
+function show(value: unknown, kind: FieldDiff["kind"], unit: WeightUnit): string {
+  if (value === undefined || value === null || value === "") return "—";
+  if (kind === "weight" && typeof value === "number") return formatWeight(value, unit);
+  if (typeof value === "boolean") return value ? "On" : "Off";
+  if (Array.isArray(value)) {
+    if (value.every((x) => typeof x === "number")) return value.join(", ");
+    if (value.every((x) => typeof x === "object" && x && "status" in x)) {
+      return (value as Attempt[])
+        .map((a) => (a.weight === null ? "—" : `${formatWeight(a.weight, unit, false)}${a.status === "good" ? " ✓" : a.status === "nolift" ? " ✗" : ""}`))
+        .join(" / ");
+    }
+    if (value.every((x) => typeof x === "object" && x && "kind" in x)) return (value as Discipline[]).map((d) => d.name).join(", ");
+  }
+  if (typeof value === "object") return "changed";
+  return String(value);
+}
+
+export default function MergeView({
+  local,
+  incoming,
+  unit,
+  onKeepLocal,
+  onApply,
+  onFork,
+}: {
+  local: State;
+  incoming: State;
+  unit: WeightUnit;
+  onKeepLocal: () => void;
+  onApply: (merged: State) => void;
+  onFork: () => void;
+}) {
+  const diff = useMemo(() => diffEvents(local, incoming), [local, incoming]);
+  const [resolution, setResolution] = useState<MergeResolution>(() => resolveAll(diff, "local"));
+
+  const choose = (key: string, side: MergeSide) => setResolution((r) => ({ ...r, [key]: side }));
+  const incomingCount = Object.values(resolution).filter((s) => s === "incoming").length;
+
+  const pickCell = (key: string, side: MergeSide, text: string) => (
+    <td className="py-1 pr-3">
+      <label className={`flex items-center gap-2 cursor-pointer ${resolution[key] === side ? "font-semibold" : "opacity-70"}`}>
+        <input type="radio" name={key} checked={resolution[key] === side} onChange={() => choose(key, side)} />
+        <span>{text}</span>
+      </label>
+    </td>
+  );
+
+  const fieldRow = (f: FieldDiff) => (
+    <tr key={f.key} className="border-t border-[var(--border)]">
+      <td className="py-1 pr-3 opacity-80">{f.label}</td>
+      {pickCell(f.key, "local", show(f.local, f.kind, unit))}
+      {pickCell(f.key, "incoming", show(f.incoming, f.kind, unit))}
+    </tr>
+  );
+
+  return (
+    <div className="min-h-screen px-4 py-6 md:py-10 bg-[var(--bg)] text-[var(--fg)]">
+      <div className="mx-auto max-w-4xl">
+        <div className="mb-6 space-y-1">
+          <h1 className="text-2xl md:text-3xl font-bold">Incoming changes to “{local.title}”</h1>
+          <p className="text-sm opacity-80">
+            This link is for an event you already have, and the two copies differ. Pick which value to keep for each change, or take one side wholesale.
+          </p>
+        </div>
+
+        <div className="mb-4 flex flex-wrap gap-2 text-sm">
+          <button onClick={() => setResolution(resolveAll(diff, "local"))} className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]">
+            Select all local
+          </button>
+          <button onClick={() => setResolution(resolveAll(diff, "incoming"))} className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]">
+            Select all incoming
+          </button>
+        </div>
+
+        <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-4 overflow-x-auto text-sm space-y-5">
+          {diff.settings.length > 0 && (
+            <div>
+              <h2 className="font-semibold mb-2">Event settings</h2>
+              <table className="min-w-full">
+                <thead className="text-left opacity-80">
+                  <tr>
+                    <th className="py-1 pr-3 w-40"></th>
+                    <th className="py-1 pr-3">Here</th>
+                    <th className="py-1 pr-3">Incoming</th>
+                  </tr>
+                </thead>
+                <tbody>{diff.settings.map(fieldRow)}</tbody>
+              </table>
+            </div>
+          )}
+
+          {diff.athletes.map((a) => (
+            <div key={a.id}>
+              <h2 className="font-semibold mb-2">
+                {a.name || "Unnamed athlete"}
+                {a.status !== "changed" && (
+                  <span className="ml-2 text-xs font-normal opacity-70">
+                    {a.status === "added" ? "only in the incoming copy" : "not in the incoming copy"}
+                  </span>
+                )}
+              </h2>
+              <table className="min-w-full">
+                <thead className="text-left opacity-80">
+                  <tr>
+                    <th className="py-1 pr-3 w-40"></th>
+                    <th className="py-1 pr-3">Here</th>
+                    <th className="py-1 pr-3">Incoming</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {a.status === "changed" ? (
+                    a.fields.map(fieldRow)
+                  ) : (
+                    <tr className="border-t border-[var(--border)]">
+                      <td className="py-1 pr-3 opacity-80">Entrant</td>
+                      {pickCell(a.id, "local", a.status === "added" ? "Leave out" : "Keep")}
+                      {pickCell(a.id, "incoming", a.status === "added" ? "Add" : "Remove")}
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-6 flex flex-wrap gap-2 text-sm">
+          <button
+            onClick={() => onApply(applyMerge(local, incoming, diff, resolution))}
+            className="px-3 py-2 rounded-lg bg-[var(--ok)] hover:bg-[var(--okHover)] text-white"
+          >
+            {incomingCount ? `Apply ${incomingCount} incoming change${incomingCount === 1 ? "" : "s"}` : "Keep everything here"}
+          </button>
+          <button onClick={onKeepLocal} className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]">
+            Ignore the link
+          </button>
+          <button onClick={onFork} className="px-3 py-2 rounded-lg bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]" title="Keep both: the incoming copy becomes a separate event">
+            Save incoming as a separate event
+          </button>
+        </div>
+        <p className="mt-2 text-xs opacity-70">Applying a merge is one undo step in the event.</p>
+      </div>
+    </div>
+  );
+}
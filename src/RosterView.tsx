@@ -0,0 +1,158 @@
+import { useMemo, useState } from "react";
+import type { EventMeta, RosterAthlete, WeightUnit } from "./types";
+import { loadRoster, saveRoster } from "./storage";
+import { countLinkedEntrants, propagateProfile } from "./roster";
+import { toNumber } from "./scoring";
+import WeightInput from "./WeightInput";
+import { athleteIdentity } from "./season";
+
+function uid() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+export default function RosterView({
+  events,
+  unit,
+  onBack,
+  onShowHistory,
+}: {
+  events: EventMeta[];
+  unit: WeightUnit;
+  onBack: () => void;
+  onShowHistory: (identity: string, name: string) => void;
+}) {
+  const [roster, setRoster] = useState<RosterAthlete[]>(() => loadRoster());
+  const [query, setQuery] = useState("");
+
+  const filtered = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return [...roster]
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .filter((p) => (q ? p.name.toLowerCase().includes(q) : true));
+  }, [roster, query]);
+
+  const linkedCounts = useMemo(() => countLinkedEntrants(events), [events]);
+
+  function persist(next: RosterAthlete[]) {
+    setRoster(next);
+    saveRoster(next);
+  }
+
+  function addProfile() {
+    persist([...roster, { id: uid(), name: "New Athlete", sex: "M", age: null, bodyweight: null, updatedAt: Date.now() }]);
+  }
+
+  function updateProfile(id: string, patch: Partial<RosterAthlete>) {
+    persist(roster.map((p) => (p.id === id ? { ...p, ...patch, updatedAt: Date.now() } : p)));
+  }
+
+  function removeProfile(id: string) {
+    const p = roster.find((x) => x.id === id);
+    if (!p) return;
+    if (!confirm(`Remove "${p.name}" from the roster? Event results are kept but no longer linked.`)) return;
+    persist(roster.filter((x) => x.id !== id));
+  }
+
+  function propagate(p: RosterAthlete) {
+    const n = propagateProfile(p, events);
+    alert(n ? `Updated ${p.name} in ${n} event${n === 1 ? "" : "s"}.` : "No linked entrants to update.");
+  }
+
+  return (
+    <div className="min-h-screen px-4 py-6 md:py-10 bg-[var(--bg)] text-[var(--fg)]">
+      <div className="mx-auto max-w-4xl">
+        <div className="flex items-center justify-between mb-6">
+          <div className="space-y-1">
+            <h1 className="text-2xl md:text-3xl font-bold">Roster</h1>
+            <p className="text-xs md:text-sm opacity-80">
+              <button onClick={onBack} className="underline hover:opacity-80">Back to events</button>
+            </p>
+          </div>
+          <button
+            onClick={addProfile}
+            className="px-3 py-2 rounded-lg bg-[var(--accent)] hover:bg-[var(--accentHover)] text-white text-sm"
+          >
+            Add athlete
+          </button>
+        </div>
+
+        <div className="mb-4 flex items-center gap-2">
+          <input
+            className="flex-1 bg-[var(--input)] border border-[var(--border)] rounded-lg px-3 py-2"
+            placeholder="Search roster…"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        </div>
+
+        <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-4 overflow-x-auto">
+          {filtered.length === 0 ? (
+            <p className="text-sm opacity-70 text-center">
+              No roster athletes yet. Add them here, or use “Save to roster” on an event’s entrant.
+            </p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="text-left opacity-80">
+                <tr>
+                  <th className="py-2 pr-3">Name</th>
+                  <th className="py-2 pr-3">Sex</th>
+                  <th className="py-2 pr-3">Age</th>
+                  <th className="py-2 pr-3">BW ({unit})</th>
+                  <th className="py-2 pr-3">Linked</th>
+                  <th className="py-2 pr-3"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map((p) => (
+                  <tr key={p.id} className="border-t border-[var(--border)]">
+                    <td className="py-2 pr-3">
+                      <input className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-40" value={p.name} onChange={(e) => updateProfile(p.id, { name: e.target.value })} placeholder="Name" />
+                    </td>
+                    <td className="py-2 pr-3">
+                      <select className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1" value={p.sex} onChange={(e) => updateProfile(p.id, { sex: e.target.value as RosterAthlete["sex"] })}>
+                        <option value="M">M</option>
+                        <option value="F">F</option>
+                        <option value="X">X</option>
+                      </select>
+                    </td>
+                    <td className="py-2 pr-3">
+                      <input type="number" className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-20" value={p.age ?? ""} onChange={(e) => updateProfile(p.id, { age: toNumber(e.target.value) })} placeholder="Age" />
+                    </td>
+                    <td className="py-2 pr-3">
+                      <WeightInput className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-24" kg={p.bodyweight} unit={unit} onChange={(kg) => updateProfile(p.id, { bodyweight: kg })} />
+                    </td>
+                    <td className="py-2 pr-3 opacity-80">{linkedCounts[p.id] ?? 0}</td>
+                    <td className="py-2 pr-3">
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => onShowHistory(athleteIdentity({ name: p.name, rosterId: p.id }), p.name)}
+                          className="px-2 py-1 rounded bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]"
+                        >
+                          History
+                        </button>
+                        <button
+                          onClick={() => propagate(p)}
+                          disabled={!linkedCounts[p.id]}
+                          className="px-2 py-1 rounded bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)] disabled:opacity-50"
+                          title="Copy name, sex, age and bodyweight to every linked entrant"
+                        >
+                          Update events
+                        </button>
+                        <button onClick={() => removeProfile(p.id)} className="px-2 py-1 bg-[var(--danger)] hover:bg-[var(--dangerHover)] text-white rounded">
+                          Remove
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="text-xs opacity-70 mt-3">
+            Profile edits stay on the roster until you press “Update events”, so past months keep the bodyweight they were scored with.
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useEffect, useState, useSyncExternalStore } from "react";
+import { getSaveStatus, getStorageUsage, retryFailedSaves, subscribeSaveStatus } from "./storage";
+
+function formatBytes(n: number) {
+  if (n < 1024) return `${n} B`;
+  if (n < 1024 * 1024) return `${(n / 1024).toFixed(0)} KB`;
+  if (n < 1024 * 1024 * 1024) return `${(n / 1024 / 1024).toFixed(1)} MB`;
+  return `${(n / 1024 / 1024 / 1024).toFixed(1)} GB`;
+}
+
+function formatTime(ts: number) {
+  return new Date(ts).toLocaleTimeString(undefined, { hour: "2-digit", minute: "2-digit", second: "2-digit" });
+}
+
+// Autosave indicator: last successful save, storage used, and any write that failed
+export default function SaveStatus() {
+  const status = useSyncExternalStore(subscribeSaveStatus, getSaveStatus);
+  const [usage, setUsage] = useState<{ used: number; quota: number | null } | null>(null);
+
+  useEffect(() => {
+    let live = true;
+    getStorageUsage().then((u) => live && setUsage(u));
+    return () => {
+      live = false;
+    };
+  }, [status.lastSavedAt]);
+
+  const nearlyFull = usage?.quota ? usage.used / usage.quota > 0.9 : false;
+  const backend = status.backend === "indexedDB" ? "IndexedDB" : "browser storage";
+
+  return (
+    <div
+      className={`fixed bottom-3 right-3 z-50 max-w-sm rounded-xl border px-3 py-2 text-xs shadow bg-[var(--card)] ${
+        status.error ? "border-[var(--danger)]" : "border-[var(--border)] opacity-80"
+      }`}
+      role="status"
+    >
+      {status.error ? (
+        <div className="space-y-1">
+          <div className="font-semibold text-[var(--danger)]">
+            Not saved: {status.error.quota ? "storage is full" : status.error.message}
+          </div>
+          <div>
+            Your latest changes are only in this tab. {status.error.quota && "Delete or export old events to make room, then "}
+            <button onClick={retryFailedSaves} className="underline hover:opacity-80">try again</button>.
+          </div>
+        </div>
+      ) : (
+        <span>
+          {status.pending ? "Saving…" : status.lastSavedAt ? `Saved ${formatTime(status.lastSavedAt)}` : "All changes saved"}
+        </span>
+      )}
+      {usage && (
+        <div className={`mt-0.5 ${nearlyFull ? "text-[var(--danger)]" : "opacity-70"}`}>
+          {formatBytes(usage.used)}
+          {usage.quota ? ` of ${formatBytes(usage.quota)}` : ""} used · {backend}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,205 @@
+import { useMemo, useState } from "react";
+import type { EID, EventMeta, Season } from "./types";
+import { loadSeasons, saveSeasons } from "./storage";
+import { computeSeasonStandings } from "./season";
+
+function uid() {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+function formatMonth(ts: number) {
+  return new Date(ts).toLocaleDateString(undefined, { month: "short", year: "numeric" });
+}
+
+export default function SeasonView({
+  events,
+  onBack,
+  onOpenEvent,
+}: {
+  events: EventMeta[];
+  onBack: () => void;
+  onOpenEvent: (eid: EID) => void;
+}) {
+  const [seasons, setSeasons] = useState<Season[]>(() => loadSeasons());
+  const [selectedId, setSelectedId] = useState<string | null>(() => seasons[0]?.id ?? null);
+  const selected = seasons.find((s) => s.id === selectedId) ?? null;
+
+  const standings = useMemo(() => (selected ? computeSeasonStandings(selected, events) : null), [selected, events]);
+
+  const sortedEvents = useMemo(() => [...events].sort((a, b) => a.createdAt - b.createdAt), [events]);
+
+  function persist(next: Season[]) {
+    setSeasons(next);
+    saveSeasons(next);
+  }
+
+  function createSeason() {
+    const season: Season = {
+      id: uid(),
+      name: `${new Date().getFullYear()} season`,
+      eids: [],
+      bestOf: null,
+      createdAt: Date.now(),
+    };
+    persist([...seasons, season]);
+    setSelectedId(season.id);
+  }
+
+  function updateSeason(id: string, patch: Partial<Season>) {
+    persist(seasons.map((s) => (s.id === id ? { ...s, ...patch } : s)));
+  }
+
+  function deleteSeason(id: string) {
+    const season = seasons.find((s) => s.id === id);
+    if (!season) return;
+    if (!confirm(`Delete season "${season.name}"? Its events are kept.`)) return;
+    const next = seasons.filter((s) => s.id !== id);
+    persist(next);
+    setSelectedId(next[0]?.id ?? null);
+  }
+
+  function toggleEvent(season: Season, eid: EID) {
+    const eids = season.eids.includes(eid) ? season.eids.filter((e) => e !== eid) : [...season.eids, eid];
+    updateSeason(season.id, { eids });
+  }
+
+  return (
+    <div className="min-h-screen px-4 py-6 md:py-10 bg-[var(--bg)] text-[var(--fg)]">
+      <div className="mx-auto max-w-5xl">
+        <div className="flex items-center justify-between mb-6">
+          <div className="space-y-1">
+            <h1 className="text-2xl md:text-3xl font-bold">Season standings</h1>
+            <p className="text-xs md:text-sm opacity-80">
+              <button onClick={onBack} className="underline hover:opacity-80">Back to events</button>
+            </p>
+          </div>
+          <button
+            onClick={createSeason}
+            className="px-3 py-2 rounded-lg bg-[var(--accent)] hover:bg-[var(--accentHover)] text-white text-sm"
+          >
+            New season
+          </button>
+        </div>
+
+        {seasons.length === 0 ? (
+          <div className="rounded-2xl border border-[var(--border)] bg-[var(--card)] p-6 text-center">
+            <p>No seasons yet. A season groups several monthly events into one standings table.</p>
+          </div>
+        ) : (
+          <>
+            <div className="mb-4 flex flex-wrap gap-2">
+              {seasons.map((s) => (
+                <button
+                  key={s.id}
+                  onClick={() => setSelectedId(s.id)}
+                  className={`px-3 py-2 rounded-lg text-sm ${
+                    s.id === selectedId ? "bg-[var(--accent)] text-white" : "bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]"
+                  }`}
+                >
+                  {s.name}
+                </button>
+              ))}
+            </div>
+
+            {selected && standings && (
+              <>
+                {/* Settings */}
+                <div className="mb-6 rounded-2xl border border-[var(--border)] bg-[var(--card)] p-4 text-sm">
+                  <div className="flex flex-wrap items-center gap-3 mb-3">
+                    <input
+                      className="bg-[var(--input)] border border-[var(--border)] rounded-lg px-3 py-2 w-56"
+                      value={selected.name}
+                      onChange={(e) => updateSeason(selected.id, { name: e.target.value })}
+                      aria-label="Season name"
+                    />
+                    <label className="flex items-center gap-2" title="Leave empty to sum every event">
+                      <span>Best</span>
+                      <input
+                        type="number"
+                        min={1}
+                        className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-16"
+                        value={selected.bestOf ?? ""}
+                        onChange={(e) => {
+                          const n = Math.floor(Number(e.target.value));
+                          updateSeason(selected.id, { bestOf: e.target.value === "" || !(n > 0) ? null : n });
+                        }}
+                        placeholder="all"
+                      />
+                      <span>of {standings.events.length} events count</span>
+                    </label>
+                    <button
+                      onClick={() => deleteSeason(selected.id)}
+                      className="ml-auto px-3 py-2 rounded bg-[var(--danger)] hover:bg-[var(--dangerHover)] text-white text-sm"
+                    >
+                      Delete season
+                    </button>
+                  </div>
+                  <div className="font-semibold mb-2">Events in this season</div>
+                  {sortedEvents.length === 0 ? (
+                    <p className="opacity-70">No events to add yet.</p>
+                  ) : (
+                    <div className="flex flex-wrap gap-x-4 gap-y-1">
+                      {sortedEvents.map((e) => (
+                        <label key={e.eid} className="flex items-center gap-2">
+                          <input type="checkbox" checked={selected.eids.includes(e.eid)} onChange={() => toggleEvent(selected, e.eid)} />
+                          <span>{e.title}</span>
+                          <span className="text-xs opacity-70">{formatMonth(e.createdAt)}</span>
+                        </label>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* Leaderboard */}
+                <div className="bg-[var(--card)] border border-[var(--border)] rounded-2xl p-4 overflow-x-auto">
+                  <h2 className="font-semibold mb-3">{selected.name} leaderboard</h2>
+                  {standings.rows.length === 0 ? (
+                    <p className="text-sm opacity-70">Tick some events above to build the standings.</p>
+                  ) : (
+                    <table className="min-w-full text-sm">
+                      <thead className="text-left opacity-80">
+                        <tr>
+                          <th className="py-2 pr-3">Place</th>
+                          <th className="py-2 pr-3">Athlete</th>
+                          {standings.events.map((e) => (
+                            <th key={e.eid} className="py-2 pr-3">
+                              <button onClick={() => onOpenEvent(e.eid)} className="underline hover:opacity-80" title={e.title}>
+                                {formatMonth(e.createdAt)}
+                              </button>
+                            </th>
+                          ))}
+                          <th className="py-2 pr-3">Season pts</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {standings.rows.map((row, idx) => (
+                          <tr key={row.key} className="border-t border-[var(--border)]">
+                            <td className="py-2 pr-3">{idx + 1}</td>
+                            <td className="py-2 pr-3">{row.name}</td>
+                            {standings.events.map((e) => {
+                              const pts = row.perEvent[e.eid];
+                              const counted = row.counted.includes(e.eid);
+                              return (
+                                <td key={e.eid} className={`py-2 pr-3 ${counted ? "" : "opacity-40 line-through"}`}>
+                                  {pts === undefined ? "—" : pts.toFixed(1)}
+                                </td>
+                              );
+                            })}
+                            <td className="py-2 pr-3 font-semibold">{row.total.toFixed(1)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                  <p className="text-xs opacity-70 mt-3">
+                    Athletes are matched across events by roster profile, or by name when not linked. {selected.bestOf ? `Only each athlete’s best ${selected.bestOf} results count; dropped results are struck through.` : "Every event counts."}
+                  </p>
+                </div>
+              </>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useState } from "react";
+import type { SyncStatus } from "./sync";
+
+export interface SyncControls {
+  status: SyncStatus;
+  relayUrl: string;
+  relayOn: boolean;
+  setRelay: (url: string, on: boolean) => void;
+  diverged: boolean; // another copy answered with different contents
+  onReview: () => void;
+}
+
+// Connection indicator plus relay settings for live sync
+export default function SyncPanel({ sync }: { sync: SyncControls }) {
+  const [url, setUrl] = useState(sync.relayUrl);
+  const relay = sync.status.transports.relay;
+  const peers = sync.status.peers;
+
+  const [dot, label] =
+    relay === "connected"
+      ? ["bg-[var(--ok)]", peers ? `Live · ${peers} other cop${peers === 1 ? "y" : "ies"}` : "Live · waiting for other devices"]
+      : relay === "connecting"
+        ? ["bg-yellow-500", "Connecting to relay…"]
+        : relay === "offline"
+          ? ["bg-[var(--danger)]", "Relay offline · retrying"]
+          : peers
+            ? ["bg-[var(--ok)]", `Synced with ${peers} other tab${peers === 1 ? "" : "s"}`]
+            : ["bg-[var(--muted)]", "This device only"];
+
+  return (
+    <div className="mb-4 md:mb-6 rounded-2xl border border-[var(--border)] bg-[var(--card)] px-4 py-3 text-sm flex flex-wrap items-center gap-3">
+      <span className="flex items-center gap-2 font-semibold" role="status">
+        <span className={`inline-block w-2.5 h-2.5 rounded-full ${dot}`} />
+        {label}
+      </span>
+      {sync.diverged && (
+        <button onClick={sync.onReview} className="px-2 py-1 rounded bg-[var(--accent)] hover:bg-[var(--accentHover)] text-white">
+          Another copy differs · Review
+        </button>
+      )}
+      <div className="ml-auto flex items-center gap-2">
+        <input
+          className="bg-[var(--input)] border border-[var(--border)] rounded px-2 py-1 w-56"
+          value={url}
+          onChange={(e) => setUrl(e.target.value)}
+          placeholder="ws://relay-address:8787"
+          aria-label="Sync relay address"
+          disabled={sync.relayOn}
+        />
+        {sync.relayOn ? (
+          <button onClick={() => sync.setRelay(url, false)} className="px-2 py-1 rounded bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)]">
+            Disconnect
+          </button>
+        ) : (
+          <button
+            onClick={() => sync.setRelay(url.trim(), true)}
+            disabled={!/^wss?:\/\/.+/.test(url.trim())}
+            className="px-2 py-1 rounded bg-[var(--mutedBtn)] hover:bg-[var(--mutedBtnHover)] disabled:opacity-50"
+            title="Share edits live with other devices through a relay (npm run relay)"
+          >
+            Connect
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
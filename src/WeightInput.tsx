@@ -0,0 +1,55 @@
+import { useState } from "react";
+import type { WeightUnit } from "./types";
+import { formatWeight, fromDisplay, roundToPlates } from "./units";
+import { toNumber } from "./scoring";
+
+// Number input that shows and accepts `unit` but reports kg. While focused it keeps the raw
+// text so conversions don't rewrite what is being typed; `plates` snaps a typed weight to a
+// loadable bar on blur (just tabbing through leaves the stored value alone).
+export default function WeightInput({
+  kg,
+  unit,
+  onChange,
+  plates = false,
+  className,
+  placeholder,
+  ...rest
+}: {
+  kg: number | null;
+  unit: WeightUnit;
+  onChange: (kg: number | null) => void;
+  plates?: boolean;
+  className?: string;
+  placeholder?: string;
+  "aria-label"?: string;
+}) {
+  const [text, setText] = useState<string | null>(null);
+  const [edited, setEdited] = useState(false);
+  const shown = text ?? (kg === null ? "" : formatWeight(kg, unit, false));
+  return (
+    <input
+      type="number"
+      className={className}
+      placeholder={placeholder ?? unit}
+      value={shown}
+      onFocus={() => {
+        setText(shown);
+        setEdited(false);
+      }}
+      onChange={(e) => {
+        setText(e.target.value);
+        setEdited(true);
+        const v = toNumber(e.target.value);
+        onChange(v === null ? null : fromDisplay(v, unit));
+      }}
+      onBlur={() => {
+        if (plates && edited && kg !== null) {
+          const rounded = roundToPlates(kg, unit);
+          if (Math.abs(rounded - kg) > 1e-9) onChange(rounded);
+        }
+        setText(null);
+      }}
+      {...rest}
+    />
+  );
+}
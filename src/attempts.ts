@@ -0,0 +1,54 @@
+import type { Athlete, Attempt, Lift } from "./types";
+import { LIFTS } from "./disciplines";
+
+export const ATTEMPTS_PER_LIFT = 3;
+
+export function bestGoodAttempt(attempts: Attempt[] | undefined): number | null {
+  const good = (attempts ?? []).filter((t) => t.status === "good" && t.weight !== null).map((t) => t.weight as number);
+  return good.length ? Math.max(...good) : null;
+}
+
+// Always three slots so the grid can render empty attempts
+export function attemptSlots(a: Athlete, lift: Lift): Attempt[] {
+  const list = a.attempts?.[lift] ?? [];
+  return Array.from({ length: ATTEMPTS_PER_LIFT }, (_, i) => list[i] ?? { weight: null, status: "pending" });
+}
+
+// Updates one attempt and keeps the lift's single value in sync with the best good attempt,
+// so totals and formulas keep reading `squat`/`bench`/`deadlift`
+export function withAttempt(a: Athlete, lift: Lift, index: number, patch: Partial<Attempt>): Athlete {
+  const slots = attemptSlots(a, lift).map((t, i) => (i === index ? { ...t, ...patch } : t));
+  return { ...a, attempts: { ...a.attempts, [lift]: slots }, [lift]: bestGoodAttempt(slots) };
+}
+
+// Switching attempts mode on: a lift that already has a single value becomes a good first attempt
+export function seedAttempts(a: Athlete): Athlete {
+  const attempts = { ...a.attempts };
+  LIFTS.forEach((l) => {
+    if (a[l] !== null && !attempts[l]?.some((t) => t.weight !== null)) attempts[l] = [{ weight: a[l], status: "good" }];
+  });
+  return { ...a, attempts };
+}
+
+export const NEXT_STATUS: Record<Attempt["status"], Attempt["status"]> = { pending: "good", good: "nolift", nolift: "pending" };
+
+export interface NextUp {
+  athleteId: string;
+  name: string;
+  attempt: number; // 1-based
+  weight: number;
+}
+
+// Lifting order for one lift: each athlete's first unjudged attempt with a requested weight,
+// lightest bar first, then earlier attempt, then lighter bodyweight
+export function liftingOrder(athletes: Athlete[], lift: Lift): NextUp[] {
+  const queue: Array<NextUp & { bodyweight: number }> = [];
+  athletes.forEach((a) => {
+    const slots = attemptSlots(a, lift);
+    const i = slots.findIndex((t) => t.status === "pending");
+    if (i < 0 || slots[i].weight === null) return;
+    queue.push({ athleteId: a.id, name: a.name, attempt: i + 1, weight: slots[i].weight as number, bodyweight: a.bodyweight ?? Infinity });
+  });
+  queue.sort((x, y) => x.weight - y.weight || x.attempt - y.attempt || x.bodyweight - y.bodyweight);
+  return queue.map((q) => ({ athleteId: q.athleteId, name: q.name, attempt: q.attempt, weight: q.weight }));
+}
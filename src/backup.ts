@@ -0,0 +1,268 @@
+import type { EID, EventMeta, RosterAthlete, Season, State, WeightUnit } from "./types";
+import {
+  SCHEMA_VERSION,
+  SchemaError,
+  upgradeIndex,
+  upgradeRoster,
+  upgradeSeasons,
+  upgradeState,
+  type Stored,
+} from "./schema";
+import { diffEvents, isEmptyDiff } from "./merge";
+
+// A whole-browser backup: the event list, every event, the roster, the seasons and the preferences,
+// in one JSON file.
+// `version` is the layout of the file itself; `schema` is the event format inside it (see schema.ts),
+// so events from an older backup are upgraded the same way stored ones are.
+export const BACKUP_FORMAT = "liftwin-backup";
+export const BACKUP_VERSION = 1;
+
+export interface Backup {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  schema: number;
+  exportedAt: number; // epoch ms
+  index: EventMeta[];
+  events: Record<EID, State>;
+  roster: RosterAthlete[]; // missing from files made before the roster was backed up
+  seasons: Season[]; // ditto
+  theme: "light" | "dark";
+  units: WeightUnit;
+  lastOpen: EID | null;
+}
+
+export interface StoredLists {
+  roster: RosterAthlete[];
+  seasons: Season[];
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BackupError";
+  }
+}
+
+// Events the index lists but that can't be loaded are left out rather than failing the export
+export function createBackup(
+  index: EventMeta[],
+  load: (eid: EID) => State | null,
+  lists: StoredLists,
+  prefs: { theme: "light" | "dark"; units: WeightUnit; lastOpen: EID | null }
+): Backup {
+  const events: Record<EID, State> = {};
+  for (const m of index) {
+    const st = load(m.eid);
+    if (st) events[m.eid] = st;
+  }
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schema: SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    index: index.filter((m) => events[m.eid]),
+    events,
+    ...lists,
+    ...prefs,
+  };
+}
+
+export function backupFilename(at: number): string {
+  return `liftwin-backup-${new Date(at).toISOString().slice(0, 10)}.json`;
+}
+
+// ===== Restore =====
+
+export type ConflictChoice = "skip" | "overwrite" | "keepBoth";
+
+export const CONFLICT_CHOICES: Record<ConflictChoice, string> = {
+  skip: "Skip",
+  overwrite: "Overwrite",
+  keepBoth: "Keep both",
+};
+
+export interface RestoreEntry {
+  meta: EventMeta;
+  state: State;
+  existing: EventMeta | null; // an event with the same eid already in this browser
+  identical: boolean; // ...with the same contents
+}
+
+// A roster profile or season from the file, matched to one here by id. These are only ever
+// skipped or overwritten: a second copy of a profile or season would be a duplicate, not a fork.
+export interface RestoreListEntry<T> {
+  item: T;
+  existing: T | null;
+  identical: boolean;
+}
+
+export interface RestorePreview {
+  exportedAt: number;
+  entries: RestoreEntry[];
+  roster: RestoreListEntry<RosterAthlete>[];
+  seasons: RestoreListEntry<Season>[];
+  unreadable: string[]; // titles (or eids) of events in the file that couldn't be read, or "Roster" / "Seasons"
+  theme: "light" | "dark" | null;
+  units: WeightUnit | null;
+  lastOpen: EID | null;
+}
+
+// Reads a parsed backup file against what's stored now. Throws BackupError when the file isn't a
+// backup at all; individual damaged events are reported in `unreadable` instead.
+export function readBackup(
+  raw: unknown,
+  current: EventMeta[],
+  load: (eid: EID) => State | null,
+  lists: StoredLists
+): RestorePreview {
+  if (typeof raw !== "object" || raw === null || (raw as { format?: unknown }).format !== BACKUP_FORMAT) {
+    throw new BackupError("This file isn't a Liftwin backup.");
+  }
+  const b = raw as Partial<Backup>;
+  if (typeof b.version !== "number" || b.version > BACKUP_VERSION) {
+    throw new BackupError("This backup was made by a newer version of Liftwin. Update the app and try again.");
+  }
+  const schema = typeof b.schema === "number" ? b.schema : 1;
+  const events = typeof b.events === "object" && b.events !== null ? (b.events as Record<string, unknown>) : {};
+  let index: EventMeta[];
+  try {
+    index = upgradeIndex({ schema, data: b.index });
+  } catch (e) {
+    if (e instanceof SchemaError) throw new BackupError(`The backup's event list can't be read (${e.message}).`);
+    throw e;
+  }
+
+  const entries: RestoreEntry[] = [];
+  const unreadable: string[] = [];
+  for (const meta of index) {
+    let state: State;
+    try {
+      state = upgradeState({ schema, data: events[meta.eid] });
+    } catch {
+      unreadable.push(meta.title || meta.eid);
+      continue;
+    }
+    const existing = current.find((m) => m.eid === meta.eid) ?? null;
+    const local = existing && load(meta.eid);
+    entries.push({ meta, state, existing, identical: !!local && isEmptyDiff(diffEvents(local, state)) });
+  }
+
+  const roster = readList({ schema, data: b.roster }, upgradeRoster, lists.roster);
+  const seasons = readList({ schema, data: b.seasons }, upgradeSeasons, lists.seasons);
+  if (!roster) unreadable.push("Roster");
+  if (!seasons) unreadable.push("Seasons");
+
+  return {
+    exportedAt: typeof b.exportedAt === "number" ? b.exportedAt : 0,
+    entries,
+    roster: roster ?? [],
+    seasons: seasons ?? [],
+    unreadable,
+    theme: b.theme === "light" || b.theme === "dark" ? b.theme : null,
+    units: b.units === "kg" || b.units === "lb" ? b.units : null,
+    lastOpen: typeof b.lastOpen === "string" ? b.lastOpen : null,
+  };
+}
+
+// Null when the list is there but can't be read; a file without it has nothing to restore
+function readList<T extends { id: string }>(
+  stored: Stored<unknown>,
+  upgrade: (stored: Stored<unknown>) => T[],
+  current: T[]
+): RestoreListEntry<T>[] | null {
+  if (stored.data === undefined) return [];
+  let list: T[];
+  try {
+    list = upgrade(stored);
+  } catch {
+    return null;
+  }
+  return list.map((item) => {
+    const existing = current.find((c) => c.id === item.id) ?? null;
+    return { item, existing, identical: !!existing && JSON.stringify(existing) === JSON.stringify(item) };
+  });
+}
+
+// Identical copies are skipped; for anything else nothing is overwritten unless the user says so
+export function defaultChoice(entry: RestoreEntry): ConflictChoice {
+  return entry.identical ? "skip" : "keepBoth";
+}
+
+// Choices for roster profiles and seasons share the events' choice map under these keys
+export const rosterChoiceKey = (id: string) => `roster:${id}`;
+export const seasonChoiceKey = (id: string) => `season:${id}`;
+
+export interface RestorePlan {
+  index: EventMeta[]; // the new event list
+  write: Array<{ eid: EID; state: State }>;
+  roster: RosterAthlete[] | null; // the new lists; null when nothing in them changes
+  seasons: Season[] | null;
+  overwritten: EID[]; // their undo history no longer applies
+  placed: Record<EID, EID>; // backup eid -> where it was restored to (skipped ones are absent)
+}
+
+// Works out what restoring means for storage without touching it; App does the writes
+export function planRestore(
+  preview: RestorePreview,
+  choices: Record<string, ConflictChoice>,
+  current: EventMeta[],
+  lists: StoredLists,
+  newEid: () => EID
+): RestorePlan {
+  const index = [...current];
+  const write: RestorePlan["write"] = [];
+  const overwritten: EID[] = [];
+  const placed: Record<EID, EID> = {};
+
+  for (const { meta, state, existing } of preview.entries) {
+    if (!existing) {
+      index.push(meta);
+      write.push({ eid: meta.eid, state });
+      placed[meta.eid] = meta.eid;
+      continue;
+    }
+    const choice = choices[meta.eid] ?? "skip";
+    if (choice === "overwrite") {
+      const i = index.findIndex((m) => m.eid === meta.eid);
+      index[i] = { ...meta, createdAt: existing.createdAt };
+      write.push({ eid: meta.eid, state });
+      overwritten.push(meta.eid);
+      placed[meta.eid] = meta.eid;
+    } else if (choice === "keepBoth") {
+      const eid = newEid();
+      const title = `${state.title} (restored)`;
+      index.push({ ...meta, eid, title });
+      write.push({ eid, state: { ...state, title } });
+      placed[meta.eid] = eid;
+    }
+  }
+
+  return {
+    index,
+    write,
+    roster: planList(preview.roster, lists.roster, (p) => choices[rosterChoiceKey(p.id)]),
+    seasons: planList(preview.seasons, lists.seasons, (s) => choices[seasonChoiceKey(s.id)]),
+    overwritten,
+    placed,
+  };
+}
+
+// New items are added; existing ones are replaced only when the choice is "overwrite"
+function planList<T extends { id: string }>(
+  entries: RestoreListEntry<T>[],
+  current: T[],
+  choice: (item: T) => ConflictChoice | undefined
+): T[] | null {
+  const list = [...current];
+  let changed = false;
+  for (const { item, existing, identical } of entries) {
+    if (!existing) {
+      list.push(item);
+      changed = true;
+    } else if (!identical && choice(item) === "overwrite") {
+      list[list.findIndex((c) => c.id === item.id)] = item;
+      changed = true;
+    }
+  }
+  return changed ? list : null;
+}
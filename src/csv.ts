@@ -0,0 +1,211 @@
+import type { Athlete, Discipline, Lift, State, WeightUnit } from "./types";
+import { LIFT_LABELS, liftsInUse } from "./disciplines";
+import { formatPlace, parseTimeToSeconds, scoreEvent, toNumber } from "./scoring";
+import { fromDisplay } from "./units";
+
+// ===== Parsing / writing =====
+
+// Tab-separated when the first line has a tab (paste from a spreadsheet), else ; or , whichever is more common
+export function detectDelimiter(text: string): string {
+  const first = text.split(/\r?\n/, 1)[0] ?? "";
+  if (first.includes("\t")) return "\t";
+  return (first.match(/;/g)?.length ?? 0) > (first.match(/,/g)?.length ?? 0) ? ";" : ",";
+}
+
+// RFC 4180-style: quoted fields may contain delimiters, newlines and "" escapes
+export function parseDelimited(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const c = text[i];
+    if (quoted) {
+      if (c === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        field += c;
+      }
+    } else if (c === '"' && field === "") {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field !== "" || row.length) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((r) => r.some((c) => c.trim() !== ""));
+}
+
+export function toCsv(rows: Array<Array<string | number | null>>): string {
+  const cell = (v: string | number | null) => {
+    const s = v === null ? "" : String(v);
+    return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return rows.map((r) => r.map(cell).join(",")).join("\r\n");
+}
+
+export function downloadText(filename: string, text: string, type = "text/csv") {
+  downloadBlob(filename, new Blob([text], { type }));
+}
+
+export function downloadBlob(filename: string, blob: Blob) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+// ===== Import =====
+
+// Where a CSV column goes: an athlete field, a discipline's result, or nowhere
+export type ImportTarget = "" | "name" | "sex" | "age" | "bodyweight" | "squat" | "bench" | "deadlift" | `result:${string}`;
+
+export function importTargets(disciplines: Discipline[]): Array<{ value: ImportTarget; label: string }> {
+  return [
+    { value: "", label: "(ignore)" },
+    { value: "name", label: "Name" },
+    { value: "sex", label: "Sex" },
+    { value: "age", label: "Age" },
+    { value: "bodyweight", label: "Bodyweight" },
+    ...liftsInUse(disciplines).map((l) => ({ value: l as ImportTarget, label: LIFT_LABELS[l] })),
+    ...disciplines
+      .filter((d) => d.kind !== "lifts")
+      .map((d) => ({ value: `result:${d.id}` as ImportTarget, label: d.name })),
+  ];
+}
+
+// Best guess from the header text
+export function guessTarget(header: string, disciplines: Discipline[]): ImportTarget {
+  const h = header.trim().toLowerCase();
+  const d = disciplines.find((x) => x.kind !== "lifts" && h.includes(x.name.trim().toLowerCase()));
+  if (d) return `result:${d.id}`;
+  if (/name|athlete/.test(h)) return "name";
+  if (/^sex$|gender|^m\/f/.test(h)) return "sex";
+  if (/^age/.test(h)) return "age";
+  if (/^bw|body ?weight|^weight$/.test(h)) return "bodyweight";
+  if (/squat|^sq$/.test(h)) return "squat";
+  if (/bench|^bp$/.test(h)) return "bench";
+  if (/dead|^dl$/.test(h)) return "deadlift";
+  const time = disciplines.find((x) => x.kind === "time");
+  if (time && /5k|time|run/.test(h)) return `result:${time.id}`;
+  return "";
+}
+
+function parseSex(v: string): Athlete["sex"] | null {
+  const s = v.trim().toUpperCase();
+  if (s === "M" || s === "MALE" || s === "MAN") return "M";
+  if (s === "F" || s === "W" || s === "FEMALE" || s === "WOMAN") return "F";
+  if (s === "X" || s === "MX" || s === "NB") return "X";
+  return null;
+}
+
+export interface ImportIssue {
+  row: number; // 1-based data row
+  column: string;
+  message: string;
+}
+
+// Builds athletes from data rows; weights are read in `unit` and stored in kg
+export function rowsToAthletes(
+  rows: string[][],
+  mapping: ImportTarget[],
+  headers: string[],
+  disciplines: Discipline[],
+  unit: WeightUnit,
+  makeId: () => string
+): { athletes: Athlete[]; issues: ImportIssue[] } {
+  const issues: ImportIssue[] = [];
+  const athletes: Athlete[] = [];
+  rows.forEach((cells, r) => {
+    const a: Athlete = { id: makeId(), name: "", sex: "M", age: null, bodyweight: null, squat: null, bench: null, deadlift: null, results: {} };
+    mapping.forEach((target, c) => {
+      const raw = (cells[c] ?? "").trim();
+      if (!target || raw === "") return;
+      const issue = (message: string) => issues.push({ row: r + 1, column: headers[c] ?? `Column ${c + 1}`, message });
+      if (target === "name") a.name = raw;
+      else if (target === "sex") {
+        const sex = parseSex(raw);
+        if (sex) a.sex = sex;
+        else issue(`"${raw}" isn't M, F or X; using M`);
+      } else if (target.startsWith("result:")) {
+        const id = target.slice("result:".length);
+        const d = disciplines.find((x) => x.id === id);
+        const ok = d?.kind === "time" ? parseTimeToSeconds(raw) !== null : toNumber(raw) !== null;
+        if (!ok) issue(`"${raw}" isn't a valid ${d?.kind === "time" ? "time (mm:ss)" : "number"}`);
+        a.results[id] = raw;
+      } else {
+        const n = toNumber(raw);
+        if (n === null) {
+          issue(`"${raw}" isn't a number`);
+          return;
+        }
+        if (target === "age") a.age = n;
+        else a[target as "bodyweight" | Lift] = fromDisplay(n, unit);
+      }
+    });
+    if (!a.name) {
+      issues.push({ row: r + 1, column: "Name", message: "No name; row skipped" });
+      return;
+    }
+    athletes.push(a);
+  });
+  return { athletes, issues };
+}
+
+// ===== Export =====
+
+// kg values converted from lb entries carry float noise (81.6466…)
+const kg = (n: number | null) => (n === null ? null : Number(n.toFixed(2)));
+
+// Entrants (canonical kg) plus every discipline's score and points and the overall result
+export function resultsToCsv(state: State): string {
+  const { scores, leaderboard } = scoreEvent(state);
+  const lifts = liftsInUse(state.disciplines);
+  const entries = state.disciplines.filter((d) => d.kind !== "lifts");
+  const header = [
+    "Place",
+    "Name",
+    "Sex",
+    "Age",
+    "Bodyweight (kg)",
+    ...lifts.map((l) => `${LIFT_LABELS[l]} (kg)`),
+    ...entries.map((d) => (d.unit ? `${d.name} (${d.unit})` : d.name)),
+    ...scores.flatMap(({ discipline }) => [`${discipline.name} score`, `${discipline.name} pts`]),
+    "Total pts",
+  ];
+  const rows = leaderboard.map((row) => {
+    const a = state.athletes.find((x) => x.id === row.id)!;
+    return [
+      formatPlace(row),
+      a.name,
+      a.sex,
+      a.age,
+      kg(a.bodyweight),
+      ...lifts.map((l) => kg(a[l])),
+      ...entries.map((d) => a.results[d.id] ?? ""),
+      ...scores.flatMap(({ rows, points }) => {
+        const score = rows.find((x) => x.id === a.id)?.score ?? null;
+        return [score === null ? null : Number(score.toFixed(3)), Number((points[a.id] ?? 0).toFixed(2))];
+      }),
+      Number(row.totalPoints.toFixed(2)),
+    ];
+  });
+  return toCsv([header, ...rows]);
+}
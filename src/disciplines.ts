@@ -0,0 +1,42 @@
+import type { Athlete, Discipline, Lift, State } from "./types";
+
+export const LIFTS: Lift[] = ["squat", "bench", "deadlift"];
+export const LIFT_LABELS: Record<Lift, string> = { squat: "Squat", bench: "Bench", deadlift: "Deadlift" };
+
+// The two disciplines every event had before they became configurable
+export const DEFAULT_DISCIPLINES: Discipline[] = [
+  { id: "strength", name: "Strength (S+B+D)", kind: "lifts", unit: "kg", better: "higher", scoring: "strength", lifts: ["squat", "bench", "deadlift"] },
+  { id: "run5k", name: "5k", kind: "time", unit: "mm:ss", better: "lower", scoring: "run5k" },
+];
+
+// Starting points for the "Add discipline" picker (id is assigned on add)
+export const DISCIPLINE_TEMPLATES: Array<{ label: string; discipline: Omit<Discipline, "id"> }> = [
+  { label: "Strength total (S+B+D)", discipline: DEFAULT_DISCIPLINES[0] },
+  { label: "Bench only", discipline: { name: "Bench", kind: "lifts", unit: "kg", better: "higher", scoring: "strength", lifts: ["bench"] } },
+  { label: "5k run", discipline: DEFAULT_DISCIPLINES[1] },
+  { label: "Row 2k", discipline: { name: "Row 2k", kind: "time", unit: "mm:ss", better: "lower", scoring: "raw" } },
+  { label: "Max pull-ups", discipline: { name: "Pull-ups", kind: "reps", unit: "reps", better: "higher", scoring: "raw" } },
+  { label: "Distance (m)", discipline: { name: "Distance", kind: "distance", unit: "m", better: "higher", scoring: "raw" } },
+  { label: "Weight (kg)", discipline: { name: "Weight", kind: "weight", unit: "kg", better: "higher", scoring: "raw" } },
+];
+
+// Lifts entered in the Entrants table: the union of every lifts discipline, in S/B/D order
+export function liftsInUse(disciplines: Discipline[]): Lift[] {
+  const used = new Set(disciplines.flatMap((d) => (d.kind === "lifts" ? d.lifts ?? [] : [])));
+  return LIFTS.filter((l) => used.has(l));
+}
+
+type LegacyAthlete = Omit<Athlete, "results"> & { results?: Record<string, string>; runTime?: string };
+type LegacyState = Omit<State, "disciplines" | "athletes"> & { disciplines?: Discipline[]; athletes: LegacyAthlete[] };
+
+// Events saved before disciplines existed have no list and keep the 5k in `runTime`
+export function migrateState(state: LegacyState): State {
+  return {
+    ...state,
+    disciplines: state.disciplines?.length ? state.disciplines : DEFAULT_DISCIPLINES,
+    athletes: state.athletes.map(({ runTime, ...a }) => ({
+      ...a,
+      results: a.results ?? (runTime ? { run5k: runTime } : {}),
+    })),
+  };
+}
@@ -0,0 +1,109 @@
+import type { Athlete, DivisionConfig, State, WeightUnit } from "./types";
+import { renumberPlaces, scoreEvent, type LeaderboardRow, type ScoringContext } from "./scoring";
+import { formatWeight } from "./units";
+
+export const DEFAULT_DIVISIONS: DivisionConfig = {
+  bySex: false,
+  ageClasses: "none",
+  ageBounds: [40, 50, 60],
+  weightClasses: "none",
+  weightBounds: [],
+  allocateWithin: false,
+};
+
+// IPF age categories (by age in the competition year)
+const IPF_AGE_CLASSES: Array<{ label: string; min: number; max: number }> = [
+  { label: "Sub-junior (14–18)", min: 0, max: 18 },
+  { label: "Junior (19–23)", min: 19, max: 23 },
+  { label: "Open (24–39)", min: 24, max: 39 },
+  { label: "Masters 1 (40–49)", min: 40, max: 49 },
+  { label: "Masters 2 (50–59)", min: 50, max: 59 },
+  { label: "Masters 3 (60–69)", min: 60, max: 69 },
+  { label: "Masters 4 (70+)", min: 70, max: Infinity },
+];
+
+// IPF weight class upper limits in kg; X entrants use the men's classes
+const IPF_WEIGHT_CLASSES: Record<"M" | "F", number[]> = {
+  M: [59, 66, 74, 83, 93, 105, 120],
+  F: [47, 52, 57, 63, 69, 76, 84],
+};
+
+const SEX_LABELS: Record<Athlete["sex"], string> = { M: "Men", F: "Women", X: "Mx" };
+const SEX_ORDER: Record<Athlete["sex"], number> = { F: 0, M: 1, X: 2 };
+const GROUP_ORDER: Record<Division["group"], number> = { sex: 0, age: 1, weight: 2 };
+
+export interface Division {
+  id: string;
+  group: "sex" | "age" | "weight";
+  label: string;
+  athleteIds: string[];
+  order: number; // sort key within the group
+}
+
+function ageClass(age: number, cfg: DivisionConfig): { label: string; order: number } | null {
+  if (cfg.ageClasses === "IPF") {
+    const c = IPF_AGE_CLASSES.find((x) => age >= x.min && age <= x.max);
+    return c ? { label: c.label, order: c.min } : null;
+  }
+  const bounds = [...cfg.ageBounds].sort((a, b) => a - b);
+  if (bounds.length === 0) return null;
+  if (age < bounds[0]) return { label: `Under ${bounds[0]}`, order: 0 };
+  for (let i = 0; i < bounds.length - 1; i++) {
+    if (age < bounds[i + 1]) return { label: `${bounds[i]}–${bounds[i + 1] - 1}`, order: bounds[i] };
+  }
+  const last = bounds[bounds.length - 1];
+  return { label: `${last}+`, order: last };
+}
+
+// Limits are kg; `unit` is only how they're labelled
+function weightClass(bw: number, limits: number[], unit: WeightUnit): { label: string; order: number } | null {
+  const sorted = [...limits].sort((a, b) => a - b);
+  if (sorted.length === 0) return null;
+  const cls = sorted.find((l) => bw <= l);
+  const last = sorted[sorted.length - 1];
+  return cls === undefined ? { label: `${formatWeight(last, unit, false)}+ ${unit}`, order: last + 0.5 } : { label: `-${formatWeight(cls, unit)}`, order: cls };
+}
+
+function push(map: Map<string, Division>, group: Division["group"], label: string, order: number, athleteId: string) {
+  const id = `${group}:${label}`;
+  const d = map.get(id) ?? { id, group, label, athleteIds: [], order };
+  d.athleteIds.push(athleteId);
+  map.set(id, d);
+}
+
+// Sex, age-class and weight-class divisions; weight classes are split by sex when bySex is on.
+// IPF classes are named in kg; custom ones are labelled in the event's unit.
+export function buildDivisions(athletes: Athlete[], cfg: DivisionConfig, unit: WeightUnit = "kg"): Division[] {
+  const map = new Map<string, Division>();
+  for (const a of athletes) {
+    if (cfg.bySex) push(map, "sex", SEX_LABELS[a.sex], SEX_ORDER[a.sex], a.id);
+    if (cfg.ageClasses !== "none" && a.age !== null) {
+      const c = ageClass(a.age, cfg);
+      if (c) push(map, "age", c.label, c.order, a.id);
+    }
+    if (cfg.weightClasses !== "none" && a.bodyweight !== null) {
+      const ipf = cfg.weightClasses === "IPF";
+      const c = ipf ? weightClass(a.bodyweight, IPF_WEIGHT_CLASSES[a.sex === "F" ? "F" : "M"], "kg") : weightClass(a.bodyweight, cfg.weightBounds, unit);
+      const splitBySex = cfg.bySex || cfg.weightClasses === "IPF";
+      if (c) {
+        if (splitBySex) push(map, "weight", `${SEX_LABELS[a.sex]} ${c.label}`, SEX_ORDER[a.sex] * 1000 + c.order, a.id);
+        else push(map, "weight", c.label, c.order, a.id);
+      }
+    }
+  }
+  return [...map.values()].sort((x, y) => GROUP_ORDER[x.group] - GROUP_ORDER[y.group] || x.order - y.order);
+}
+
+// A division's leaderboard: either the overall rows filtered to its members, or a fresh
+// ranking where points are allocated only among them
+export function divisionLeaderboard(
+  state: State,
+  division: Division,
+  ctx: ScoringContext,
+  overall: LeaderboardRow[],
+  allocateWithin: boolean
+): LeaderboardRow[] {
+  const members = new Set(division.athleteIds);
+  if (!allocateWithin) return renumberPlaces(overall.filter((r) => members.has(r.id)));
+  return scoreEvent({ ...state, athletes: state.athletes.filter((a) => members.has(a.id)) }, ctx).leaderboard;
+}
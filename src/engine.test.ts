@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import type { Athlete, State } from "./types";
+import { DEFAULT_DISCIPLINES } from "./disciplines";
+import { SCHEMA_VERSION, SchemaError } from "./schema";
+import { computeStandings, readEvent } from "./engine";
+
+function athlete(id: string, patch: Partial<Athlete> = {}): Athlete {
+  return { id, name: id.toUpperCase(), sex: "M", age: 30, bodyweight: 100, squat: null, bench: null, deadlift: null, results: {}, ...patch };
+}
+
+const state: State = {
+  title: "Monthly Meet",
+  pointsPreset: "Custom",
+  pointsCustom: [10, 7, 5],
+  disciplines: DEFAULT_DISCIPLINES,
+  athletes: [
+    athlete("a", { squat: 250, bench: 170, deadlift: 280, results: { run5k: "25:00" } }),
+    athlete("b", { squat: 200, bench: 150, deadlift: 250, results: { run5k: "20:00" } }),
+    athlete("c", { bodyweight: null, squat: 100, bench: 80, deadlift: 120 }),
+  ],
+};
+
+describe("computeStandings", () => {
+  const s = computeStandings(state);
+
+  it("ranks each discipline with formatted scores", () => {
+    const [strength, run] = s.rankings;
+    expect(strength.scoreLabel).toBe("DOTS");
+    expect(strength.entries.map((e) => [e.name, e.placeText, e.points])).toEqual([
+      ["A", "1", 10],
+      ["B", "2", 7],
+      ["C", "—", 0],
+    ]);
+    expect(strength.entries[0].score).toBeCloseTo(510.553, 2);
+    expect(strength.entries[2].scoreText).toBe("—");
+    expect(run.entries.map((e) => e.name)).toEqual(["B", "A", "C"]);
+  });
+
+  it("totals the points per athlete, best first", () => {
+    expect(s.standings.map((st) => [st.placeText, st.name, st.totalPoints])).toEqual([
+      ["=1", "A", 17],
+      ["=1", "B", 17],
+      ["3", "C", 0],
+    ]);
+    expect(s.standings[0].breakdown).toEqual({ strength: 10, run5k: 7 });
+  });
+
+  it("uses the event's unit unless one is given", () => {
+    expect(s.unit).toBe("kg");
+    expect(computeStandings({ ...state, units: "lb" }).unit).toBe("lb");
+    expect(computeStandings(state, "lb").unit).toBe("lb");
+  });
+});
+
+describe("readEvent", () => {
+  it("accepts a bare state, a stored envelope and a share payload", () => {
+    expect(readEvent(state).title).toBe("Monthly Meet");
+    expect(readEvent({ schema: SCHEMA_VERSION, data: state }).athletes).toHaveLength(3);
+    expect(readEvent({ eid: "e1", state, schema: SCHEMA_VERSION }).disciplines).toEqual(DEFAULT_DISCIPLINES);
+  });
+
+  it("upgrades events saved before disciplines existed", () => {
+    const legacy = { title: "Old", pointsPreset: "F1", pointsCustom: [], athletes: [{ ...athlete("a"), results: undefined, runTime: "21:00" }] };
+    const upgraded = readEvent({ eid: "e1", state: legacy });
+    expect(upgraded.disciplines).toEqual(DEFAULT_DISCIPLINES);
+    expect(upgraded.athletes[0].results).toEqual({ run5k: "21:00" });
+  });
+
+  it("rejects anything that isn't an event", () => {
+    for (const input of [null, 3, "text", [], { x: 1 }, { schema: SCHEMA_VERSION, data: { x: 1 } }]) {
+      expect(() => readEvent(input)).toThrow(SchemaError);
+    }
+  });
+
+  it("flags events from a newer version of the app", () => {
+    try {
+      readEvent({ schema: SCHEMA_VERSION + 1, data: state });
+      expect.unreachable();
+    } catch (e) {
+      expect(e).toBeInstanceOf(SchemaError);
+      expect((e as SchemaError).newer).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,93 @@
+import type { State, WeightUnit } from "./types";
+import { formatPlace, scoreColumn, scoreEvent, scoringContext } from "./scoring";
+import { SchemaError, unwrap, upgradeState } from "./schema";
+
+// Scoring without the UI: from any saved or shared form of an event to its rankings and standings.
+// Nothing here touches React or the DOM, so the same code runs in the browser and in cli/score.ts.
+
+export interface RankingEntry {
+  athleteId: string;
+  name: string;
+  place: number | null; // null = no score in this discipline
+  tied: boolean;
+  placeText: string; // "1", "=2", "—"
+  score: number | null;
+  scoreText: string;
+  points: number;
+}
+
+export interface DisciplineRanking {
+  id: string;
+  name: string;
+  scoreLabel: string;
+  entries: RankingEntry[]; // best first
+}
+
+export interface Standing {
+  athleteId: string;
+  name: string;
+  place: number;
+  tied: boolean;
+  placeText: string;
+  totalPoints: number;
+  breakdown: Record<string, number>; // points by discipline id
+}
+
+export interface EventStandings {
+  title: string;
+  unit: WeightUnit;
+  rankings: DisciplineRanking[];
+  standings: Standing[];
+}
+
+export function computeStandings(state: State, unit: WeightUnit = state.units ?? "kg"): EventStandings {
+  const ctx = scoringContext(state);
+  const { scores, leaderboard } = scoreEvent(state, ctx);
+  return {
+    title: state.title,
+    unit,
+    rankings: scores.map(({ discipline: d, rows, points, places }) => {
+      const column = scoreColumn(d, ctx, unit);
+      return {
+        id: d.id,
+        name: d.name,
+        scoreLabel: column.label,
+        entries: rows.map((r) => ({
+          athleteId: r.id,
+          name: r.name,
+          place: places[r.id]?.place ?? null,
+          tied: places[r.id]?.tied ?? false,
+          placeText: formatPlace(places[r.id]),
+          score: r.score,
+          scoreText: r.score === null ? "—" : column.format(r.score),
+          points: points[r.id] ?? 0,
+        })),
+      };
+    }),
+    standings: leaderboard.map((row) => ({
+      athleteId: row.id,
+      name: row.name,
+      place: row.place,
+      tied: row.tied,
+      placeText: formatPlace(row),
+      totalPoints: row.totalPoints,
+      breakdown: row.breakdown,
+    })),
+  };
+}
+
+// Accepts a stored envelope ({schema, data}), a share-key payload ({eid, state, schema?}) or a bare
+// State, and returns a current State. Throws SchemaError when it isn't an event.
+export function readEvent(input: unknown): State {
+  if (!isObject(input)) throw new SchemaError("not an event");
+  // share keys made before versioning carry no schema number
+  const stored = isObject(input.state) ? { schema: typeof input.schema === "number" ? input.schema : 1, data: input.state } : unwrap(input);
+  // repairState would make an "Untitled event" out of any object; ask for something event-shaped first
+  const data = stored.data;
+  if (!isObject(data) || (!Array.isArray(data.athletes) && typeof data.title !== "string" && !Array.isArray(data.disciplines))) {
+    throw new SchemaError("not an event");
+  }
+  return upgradeState(stored);
+}
+
+const isObject = (v: unknown): v is Record<string, unknown> => typeof v === "object" && v !== null && !Array.isArray(v);
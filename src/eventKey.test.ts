@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import type { State } from "./types";
+import { DEFAULT_DISCIPLINES } from "./disciplines";
+import { SCHEMA_VERSION } from "./schema";
+import { EventKeyError, extractKeyFromUrl, makeEventKey, readEventKey, type EventKeyErrorCode } from "./eventKey";
+
+const state: State = {
+  title: "Monthly Meet — ünïcode",
+  pointsPreset: "F1",
+  pointsCustom: [],
+  disciplines: DEFAULT_DISCIPLINES,
+  athletes: [{ id: "a", name: "Alex", sex: "M", age: 30, bodyweight: 85, squat: 180, bench: 120, deadlift: 220, results: { run5k: "22:30" } }],
+};
+
+async function errorCode(key: string): Promise<EventKeyErrorCode | null> {
+  try {
+    await readEventKey(key);
+    return null;
+  } catch (e) {
+    expect(e).toBeInstanceOf(EventKeyError);
+    return (e as EventKeyError).code;
+  }
+}
+
+describe("readEventKey", () => {
+  it("reads back what makeEventKey wrote", async () => {
+    const key = await makeEventKey({ eid: "e1", state });
+    expect(key).toMatch(/^v2\.z\./);
+    expect(await readEventKey(key)).toEqual({ eid: "e1", state, schema: SCHEMA_VERSION });
+  });
+
+  it("reads the original base64 keys", async () => {
+    const legacy = btoa(JSON.stringify({ eid: "e1", state: { title: "Old" } }));
+    expect(await readEventKey(legacy)).toEqual({ eid: "e1", state: { title: "Old" } });
+  });
+
+  it("tells a cut-off key from a damaged one", async () => {
+    const key = await makeEventKey({ eid: "e1", state });
+    expect(await errorCode(key.slice(0, -5))).toBe("truncated");
+    expect(await errorCode(key.split(".").slice(0, 3).join("."))).toBe("truncated");
+    const last = key[key.length - 1];
+    expect(await errorCode(key.slice(0, -1) + (last === "A" ? "B" : "A"))).toBe("corrupt");
+    expect(await errorCode(`${key}.extra`)).toBe("corrupt");
+    expect(await errorCode("not a key!")).toBe("corrupt");
+    expect(await errorCode(btoa(JSON.stringify({ eid: "e1", state: { title: "Old", athletes: [] } })).slice(0, 40))).toBe("truncated");
+  });
+
+  it("refuses keys from a newer version", async () => {
+    expect(await errorCode("v9.z.1.1.A")).toBe("unsupported-version");
+  });
+});
+
+describe("extractKeyFromUrl", () => {
+  it("finds the key in a share link", () => {
+    expect(extractKeyFromUrl("https://example.com/Liftwin/#k=v2.z.abc")).toBe("v2.z.abc");
+    expect(extractKeyFromUrl("https://example.com/Liftwin/#/event/1")).toBeNull();
+  });
+});
@@ -1,22 +1,127 @@
 import type { EID, State } from "./types";
+import { SCHEMA_VERSION } from "./schema";
 
-// Base64 encode/decode of { eid, state }, Unicode-safe
-export function makeEventKey(payload: { eid: EID; state: State }): string {
-  const enc = new TextEncoder().encode(JSON.stringify(payload));
+// Share key layout (v2):  v2.<codec>.<length>.<checksum>.<data>
+//   codec     "z" = deflate-raw, "j" = plain JSON (browsers without CompressionStream)
+//   length    number of <data> characters, base36 — lets us tell a cut-off link from a corrupt one
+//   checksum  CRC-32 of the JSON bytes, base36
+//   data      URL-safe base64 without padding
+// Keys without a "v<n>." prefix are the original plain base64 JSON and are still read.
+export const EVENT_KEY_VERSION = 2;
+
+export type EventKeyErrorCode = "truncated" | "corrupt" | "unsupported-version";
+
+const MESSAGES: Record<EventKeyErrorCode, string> = {
+  truncated: "The share link is incomplete — it was probably cut off when it was pasted or sent. Ask for the full link.",
+  corrupt: "The share link is damaged and can't be read.",
+  "unsupported-version": "The share link was made by a newer version of Liftwin. Update the app and try again.",
+};
+
+export class EventKeyError extends Error {
+  code: EventKeyErrorCode;
+  constructor(code: EventKeyErrorCode, message = MESSAGES[code]) {
+    super(message);
+    this.name = "EventKeyError";
+    this.code = code;
+  }
+}
+
+// ===== Bytes =====
+
+function toBase64Url(bytes: Uint8Array): string {
   let bin = "";
-  for (let i = 0; i < enc.length; i++) bin += String.fromCharCode(enc[i]);
-  return btoa(bin);
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64(text: string): Uint8Array {
+  const b64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  const bin = atob(b64 + "=".repeat((4 - (b64.length % 4)) % 4));
+  const bytes = new Uint8Array(bin.length);
+  for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
+  return bytes;
+}
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(bytes: Uint8Array): number {
+  let c = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) c = CRC_TABLE[(c ^ bytes[i]) & 0xff] ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+async function pipeBytes(bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
 }
 
-export function readEventKey<T = { eid?: EID; state?: State }>(key: string): T | null {
+const canCompress = () => typeof CompressionStream !== "undefined" && typeof DecompressionStream !== "undefined";
+
+// ===== Keys =====
+
+// The state's storage schema rides along so the receiver can migrate it like a stored event
+export async function makeEventKey(payload: { eid: EID; state: State }): Promise<string> {
+  const json = new TextEncoder().encode(JSON.stringify({ ...payload, schema: SCHEMA_VERSION }));
+  const codec = canCompress() ? "z" : "j";
+  const data = toBase64Url(codec === "z" ? await pipeBytes(json, new CompressionStream("deflate-raw")) : json);
+  return `v${EVENT_KEY_VERSION}.${codec}.${data.length.toString(36)}.${crc32(json).toString(36)}.${data}`;
+}
+
+// Throws EventKeyError with a message suitable for showing to the user
+export async function readEventKey<T = { eid?: EID; state?: State }>(key: string): Promise<T> {
+  const text = key.trim();
+  const version = text.match(/^v(\d+)\./);
+  if (!version) return readLegacyKey<T>(text);
+  if (Number(version[1]) !== EVENT_KEY_VERSION) throw new EventKeyError("unsupported-version");
+
+  const parts = text.split(".");
+  if (parts.length < 5) throw new EventKeyError("truncated");
+  const [, codec, lengthText, checksumText, data] = parts;
+  const length = parseInt(lengthText, 36);
+  const checksum = parseInt(checksumText, 36);
+  if (parts.length > 5 || (codec !== "z" && codec !== "j") || Number.isNaN(length) || Number.isNaN(checksum)) {
+    throw new EventKeyError("corrupt");
+  }
+  if (data.length < length) throw new EventKeyError("truncated");
+  if (data.length > length) throw new EventKeyError("corrupt");
+
+  let json: Uint8Array;
+  try {
+    const bytes = fromBase64(data);
+    if (codec === "z" && !canCompress()) {
+      throw new EventKeyError("corrupt", "This browser can't open compressed share links. Try a current Chrome, Firefox or Safari.");
+    }
+    json = codec === "z" ? await pipeBytes(bytes, new DecompressionStream("deflate-raw")) : bytes;
+  } catch (e) {
+    if (e instanceof EventKeyError) throw e;
+    throw new EventKeyError("corrupt");
+  }
+  if (crc32(json) !== checksum) throw new EventKeyError("corrupt");
+  try {
+    return JSON.parse(new TextDecoder().decode(json)) as T;
+  } catch {
+    throw new EventKeyError("corrupt");
+  }
+}
+
+// Original format: base64 of the JSON, no checksum. A JSON parse failure is almost always a cut-off link.
+function readLegacyKey<T>(text: string): T {
+  if (!/^[A-Za-z0-9+/_-]+={0,2}$/.test(text)) throw new EventKeyError("corrupt");
+  const body = text.replace(/=+$/, "");
+  // A lone trailing character can't be decoded; it can only come from a cut-off key
+  const json = new TextDecoder().decode(fromBase64(body.length % 4 === 1 ? body.slice(0, -1) : body));
   try {
-    const bin = atob(key.trim());
-    const bytes = new Uint8Array(bin.length);
-    for (let i = 0; i < bin.length; i++) bytes[i] = bin.charCodeAt(i);
-    const json = new TextDecoder().decode(bytes);
     return JSON.parse(json) as T;
   } catch {
-    return null;
+    throw new EventKeyError(json.startsWith("{") ? "truncated" : "corrupt");
   }
 }
 
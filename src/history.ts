@@ -0,0 +1,112 @@
+import type { Athlete, Discipline, EID, EventMeta } from "./types";
+import { loadEvent } from "./storage";
+import { STRENGTH_FORMULAS, disciplineResult, parseTimeToSeconds, scoreEvent } from "./scoring";
+import { athleteIdentity } from "./season";
+
+// Non-lift disciplines are matched across events by kind and name, since ids are per event
+export function disciplineKey(d: Discipline): string {
+  return `${d.kind}:${d.name.trim().toLowerCase()}`;
+}
+
+export interface HistoryEntry {
+  eid: EID;
+  title: string;
+  date: number; // event createdAt
+  squat: number | null;
+  bench: number | null;
+  deadlift: number | null;
+  total: number | null;
+  strength: number | null; // first strength discipline's score, in that event's formula
+  strengthLabel: string | null;
+  run: number | null; // 5k seconds
+  results: Record<string, { value: number; better: Discipline["better"] }>; // by disciplineKey
+}
+
+function liftSum(e: Pick<HistoryEntry, "squat" | "bench" | "deadlift">, lifts: Discipline["lifts"]): number | null {
+  const vals = (lifts ?? []).map((l) => e[l]).filter((v): v is number => v !== null);
+  return vals.length ? vals.reduce((a, b) => a + b, 0) : null;
+}
+
+// What the history needs from the event index (not updatedAt, which changes on every save)
+export type HistorySource = Pick<EventMeta, "eid" | "title" | "createdAt">;
+
+// Every stored appearance of every athlete, keyed by athleteIdentity, oldest first
+export function collectHistories(index: HistorySource[]): Map<string, HistoryEntry[]> {
+  const byIdentity = new Map<string, HistoryEntry[]>();
+  for (const meta of index) {
+    const state = loadEvent(meta.eid);
+    if (!state) continue;
+    const { scores } = scoreEvent(state);
+    const strength = scores.find((s) => s.discipline.scoring === "strength");
+    const run = state.disciplines.find((d) => d.scoring === "run5k");
+    for (const a of state.athletes) {
+      const identity = athleteIdentity(a);
+      if (!identity) continue;
+      const results: HistoryEntry["results"] = {};
+      state.disciplines.forEach((d) => {
+        if (d.kind === "lifts") return;
+        const value = disciplineResult(d, a);
+        if (value !== null) results[disciplineKey(d)] = { value, better: d.better };
+      });
+      const list = byIdentity.get(identity) ?? [];
+      list.push({
+        eid: meta.eid,
+        title: meta.title,
+        date: meta.createdAt,
+        squat: a.squat,
+        bench: a.bench,
+        deadlift: a.deadlift,
+        total: liftSum(a, ["squat", "bench", "deadlift"]),
+        strength: strength?.rows.find((r) => r.id === a.id)?.score ?? null,
+        strengthLabel: strength ? STRENGTH_FORMULAS[state.strengthFormula ?? "DOTS"].label : null,
+        run: run ? parseTimeToSeconds(a.results[run.id] ?? "") : null,
+        results,
+      });
+      byIdentity.set(identity, list);
+    }
+  }
+  byIdentity.forEach((list) => list.sort((a, b) => a.date - b.date));
+  return byIdentity;
+}
+
+export type HistoryMetric = "squat" | "bench" | "deadlift" | "total" | "run";
+
+// A result is a PR when it beats every earlier result of the same metric (a first result isn't)
+export function personalRecords(entries: HistoryEntry[]): Record<EID, HistoryMetric[]> {
+  const prs: Record<EID, HistoryMetric[]> = {};
+  const metrics: Array<[HistoryMetric, 1 | -1]> = [
+    ["squat", 1],
+    ["bench", 1],
+    ["deadlift", 1],
+    ["total", 1],
+    ["run", -1],
+  ];
+  const best: Partial<Record<HistoryMetric, number>> = {};
+  for (const e of entries) {
+    prs[e.eid] = [];
+    for (const [m, dir] of metrics) {
+      const v = e[m];
+      if (v === null) continue;
+      const prev = best[m];
+      if (prev !== undefined && dir * (v - prev) > 0) prs[e.eid].push(m);
+      if (prev === undefined || dir * (v - prev) > 0) best[m] = v;
+    }
+  }
+  return prs;
+}
+
+// Whether the athlete's result in discipline `d` of the event `eid` beats everything
+// they recorded in earlier events
+export function isDisciplinePR(d: Discipline, a: Athlete, history: HistoryEntry[], eid: EID): boolean {
+  const current = disciplineResult(d, a);
+  if (current === null) return false;
+  const at = history.find((e) => e.eid === eid)?.date ?? Infinity;
+  const earlier = history.filter((e) => e.eid !== eid && e.date < at);
+  const dir = d.kind === "lifts" || d.better === "higher" ? 1 : -1;
+  let prev: number | null = null;
+  for (const e of earlier) {
+    const v = d.kind === "lifts" ? liftSum(e, d.lifts) : e.results[disciplineKey(d)]?.value ?? null;
+    if (v !== null && (prev === null || dir * (v - prev) > 0)) prev = v;
+  }
+  return prev !== null && dir * (current - prev) > 0;
+}
@@ -0,0 +1,192 @@
+import type { Athlete, Attempt, Discipline, Lift, State } from "./types";
+import { LIFTS, LIFT_LABELS } from "./disciplines";
+
+// Reconciling a shared copy of an event with the one already stored here.
+// Athletes are matched by id; every differing field can be taken from either side.
+
+export type MergeSide = "local" | "incoming";
+
+export interface FieldDiff {
+  key: string; // unique within the diff, used as the resolution key
+  label: string;
+  kind: "text" | "weight" | "other";
+  local: unknown; // undefined = not set on that side
+  incoming: unknown;
+}
+
+export interface AthleteDiff {
+  id: string;
+  name: string;
+  status: "added" | "removed" | "changed"; // added = only in the incoming copy, removed = only here
+  fields: FieldDiff[];
+}
+
+export interface EventDiff {
+  settings: FieldDiff[];
+  athletes: AthleteDiff[];
+}
+
+// Which side wins for each FieldDiff key (and `${athleteId}` for added/removed athletes)
+export type MergeResolution = Record<string, MergeSide>;
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+type SettingKey = Exclude<keyof State, "athletes">;
+const SETTINGS: Array<{ key: SettingKey; label: string }> = [
+  { key: "title", label: "Title" },
+  { key: "disciplines", label: "Disciplines" },
+  { key: "pointsPreset", label: "Points table" },
+  { key: "pointsCustom", label: "Custom points" },
+  { key: "strengthFormula", label: "Strength formula" },
+  { key: "ageAdjust", label: "Age adjustment" },
+  { key: "runScoring", label: "5k scoring" },
+  { key: "attemptsMode", label: "Meet attempts" },
+  { key: "units", label: "Units" },
+  { key: "divisions", label: "Divisions" },
+  { key: "tieBreak", label: "Tie-break" },
+  { key: "participationPoints", label: "Participation points" },
+];
+
+// achievedAt isn't a field of its own: each entry time travels with the lift or result it dates
+type ScalarField = "name" | "sex" | "age" | "bodyweight" | Lift | "rosterId";
+const ATHLETE_FIELDS: Array<{ key: ScalarField; label: string; kind: FieldDiff["kind"] }> = [
+  { key: "name", label: "Name", kind: "text" },
+  { key: "sex", label: "Sex", kind: "text" },
+  { key: "age", label: "Age", kind: "text" },
+  { key: "bodyweight", label: "Bodyweight", kind: "weight" },
+  ...LIFTS.map((l) => ({ key: l, label: LIFT_LABELS[l], kind: "weight" as const })),
+  { key: "rosterId", label: "Roster link", kind: "other" },
+];
+
+function athleteFieldDiffs(id: string, a: Athlete, b: Athlete, disciplines: Discipline[]): FieldDiff[] {
+  const out: FieldDiff[] = [];
+  ATHLETE_FIELDS.forEach((f) => {
+    if (!same(a[f.key], b[f.key])) out.push({ key: `${id}:${f.key}`, label: f.label, kind: f.kind, local: a[f.key], incoming: b[f.key] });
+  });
+  const resultIds = new Set([...Object.keys(a.results), ...Object.keys(b.results)]);
+  resultIds.forEach((rid) => {
+    if (same(a.results[rid], b.results[rid])) return;
+    const label = disciplines.find((d) => d.id === rid)?.name ?? rid;
+    out.push({ key: `${id}:results.${rid}`, label, kind: "text", local: a.results[rid], incoming: b.results[rid] });
+  });
+  LIFTS.forEach((l) => {
+    if (same(a.attempts?.[l], b.attempts?.[l])) return;
+    out.push({ key: `${id}:attempts.${l}`, label: `${LIFT_LABELS[l]} attempts`, kind: "other", local: a.attempts?.[l], incoming: b.attempts?.[l] });
+  });
+  return out;
+}
+
+export function diffEvents(local: State, incoming: State): EventDiff {
+  const settings = SETTINGS.filter((s) => !same(local[s.key], incoming[s.key])).map((s) => ({
+    key: `event:${s.key}`,
+    label: s.label,
+    kind: (s.key === "title" ? "text" : "other") as FieldDiff["kind"],
+    local: local[s.key],
+    incoming: incoming[s.key],
+  }));
+
+  const disciplines = [...local.disciplines, ...incoming.disciplines];
+  const theirs = new Map(incoming.athletes.map((a) => [a.id, a]));
+  const ours = new Map(local.athletes.map((a) => [a.id, a]));
+  const athletes: AthleteDiff[] = [];
+  local.athletes.forEach((a) => {
+    const b = theirs.get(a.id);
+    if (!b) {
+      athletes.push({ id: a.id, name: a.name, status: "removed", fields: [] });
+      return;
+    }
+    const fields = athleteFieldDiffs(a.id, a, b, disciplines);
+    if (fields.length) athletes.push({ id: a.id, name: a.name || b.name, status: "changed", fields });
+  });
+  incoming.athletes.forEach((b) => {
+    if (!ours.has(b.id)) athletes.push({ id: b.id, name: b.name, status: "added", fields: [] });
+  });
+  return { settings, athletes };
+}
+
+export function isEmptyDiff(diff: EventDiff) {
+  return diff.settings.length === 0 && diff.athletes.length === 0;
+}
+
+// Every key in the diff resolved to one side
+export function resolveAll(diff: EventDiff, side: MergeSide): MergeResolution {
+  const out: MergeResolution = {};
+  diff.settings.forEach((f) => (out[f.key] = side));
+  diff.athletes.forEach((a) => {
+    if (a.status === "changed") a.fields.forEach((f) => (out[f.key] = side));
+    else out[a.id] = side;
+  });
+  return out;
+}
+
+// `field` is a FieldDiff key without the athlete prefix: "squat", "results.<id>", "attempts.<lift>"…
+export function setAthleteField(a: Athlete, field: string, value: unknown): Athlete {
+  if (field.startsWith("results.")) {
+    const results = { ...a.results };
+    const rid = field.slice("results.".length);
+    if (value === undefined) delete results[rid];
+    else results[rid] = value as string;
+    return { ...a, results };
+  }
+  if (field.startsWith("attempts.")) {
+    const lift = field.slice("attempts.".length) as Lift;
+    const attempts = { ...a.attempts };
+    if (value === undefined) delete attempts[lift];
+    else attempts[lift] = value as Attempt[];
+    return { ...a, attempts };
+  }
+  const next = { ...a, [field]: value } as Athlete;
+  if (value === undefined) delete (next as Partial<Athlete>)[field as ScalarField];
+  return next;
+}
+
+// Entry times are kept per lift / result; the achievedAt key for a field, or null if it has none
+function entryTimeKey(field: string): string | null {
+  if (field.startsWith("results.")) return field.slice("results.".length);
+  return (LIFTS as string[]).includes(field) ? field : null;
+}
+
+export function entryTime(a: Athlete, field: string): number | undefined {
+  const key = entryTimeKey(field);
+  return key === null ? undefined : a.achievedAt?.[key];
+}
+
+// Sets the entry time that goes with a lift or result taken from another copy, so tie-breaks on
+// entry order see when the winning value was entered; other fields are left alone
+export function setEntryTime(a: Athlete, field: string, t: number | undefined): Athlete {
+  const key = entryTimeKey(field);
+  if (key === null) return a;
+  const achievedAt = { ...a.achievedAt };
+  if (t === undefined) delete achievedAt[key];
+  else achievedAt[key] = t;
+  return { ...a, achievedAt };
+}
+
+// Starts from the local event and applies every field resolved to "incoming".
+// Keys missing from the resolution keep the local value.
+export function applyMerge(local: State, incoming: State, diff: EventDiff, resolution: MergeResolution): State {
+  const pick = (key: string) => resolution[key] === "incoming";
+  let merged: State = { ...local };
+  diff.settings.forEach((f) => {
+    if (pick(f.key)) merged = { ...merged, [f.key.slice("event:".length)]: f.incoming };
+  });
+
+  const byId = new Map(diff.athletes.map((d) => [d.id, d]));
+  const theirs = new Map(incoming.athletes.map((b) => [b.id, b]));
+  const athletes = local.athletes
+    .filter((a) => !(byId.get(a.id)?.status === "removed" && pick(a.id)))
+    .map((a) => {
+      const d = byId.get(a.id);
+      const b = theirs.get(a.id);
+      if (d?.status !== "changed" || !b) return a;
+      return d.fields.reduce((acc, f) => {
+        if (!pick(f.key)) return acc;
+        const field = f.key.slice(a.id.length + 1);
+        return setEntryTime(setAthleteField(acc, field, f.incoming), field, entryTime(b, field));
+      }, a);
+    });
+  incoming.athletes.forEach((b) => {
+    if (byId.get(b.id)?.status === "added" && pick(b.id)) athletes.push(b);
+  });
+  return { ...merged, athletes };
+}
@@ -0,0 +1,186 @@
+import type { Discipline, WeightUnit } from "./types";
+import { formatPlace, scoreColumn, type LeaderboardRow, type Placing, type ScoreRow, type ScoringContext } from "./scoring";
+import { downloadBlob } from "./csv";
+
+// Results for people outside the app: a print-ready HTML page and a square PNG card for group chats.
+// Both are built from the rankings EventView already computed.
+
+export interface ResultsSheet {
+  title: string;
+  date: Date;
+  unit: WeightUnit;
+  ctx: ScoringContext;
+  scores: Array<{ discipline: Discipline; rows: ScoreRow[]; points: Record<string, number>; places: Record<string, Placing> }>;
+  leaderboard: LeaderboardRow[];
+}
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { day: "numeric", month: "long", year: "numeric" });
+
+// ===== Printable page =====
+
+const escapeHtml = (s: string) =>
+  s.replace(/[&<>"']/g, (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c] as string);
+
+const PRINT_CSS = `
+  body { font: 14px/1.4 system-ui, sans-serif; color: #111; margin: 2rem auto; max-width: 900px; padding: 0 1rem; }
+  h1 { font-size: 1.8rem; margin: 0; }
+  h2 { font-size: 1.1rem; margin: 1.5rem 0 0.5rem; }
+  .date { color: #555; margin: 0.25rem 0 1rem; }
+  table { width: 100%; border-collapse: collapse; }
+  th, td { padding: 0.35rem 0.5rem; text-align: left; border-bottom: 1px solid #ddd; }
+  th { font-size: 0.75rem; text-transform: uppercase; letter-spacing: 0.04em; color: #555; }
+  td.num, th.num { text-align: right; font-variant-numeric: tabular-nums; }
+  tr.podium td { font-weight: 600; }
+  .note { color: #555; font-size: 0.8rem; margin-top: 0.25rem; }
+  .actions { margin-bottom: 1rem; }
+  @media print {
+    @page { margin: 15mm; }
+    body { margin: 0; max-width: none; font-size: 10.5pt; }
+    .actions { display: none; }
+    section { break-inside: avoid; }
+    h2 { break-after: avoid; }
+    tr { break-inside: avoid; }
+  }
+`;
+
+function table(head: string[], rows: string[][], numeric: number[], podium: boolean[]): string {
+  const cell = (tag: "th" | "td", text: string, i: number) => `<${tag}${numeric.includes(i) ? ' class="num"' : ""}>${text}</${tag}>`;
+  return [
+    "<table>",
+    `<thead><tr>${head.map((h, i) => cell("th", escapeHtml(h), i)).join("")}</tr></thead>`,
+    "<tbody>",
+    ...rows.map((r, j) => `<tr${podium[j] ? ' class="podium"' : ""}>${r.map((c, i) => cell("td", escapeHtml(c), i)).join("")}</tr>`),
+    "</tbody></table>",
+  ].join("\n");
+}
+
+export function resultsHtml(sheet: ResultsSheet): string {
+  const { scores, leaderboard } = sheet;
+  const overall = table(
+    ["Place", "Athlete", ...scores.map((s) => `${s.discipline.name} pts`), "Total pts"],
+    leaderboard.map((row) => [
+      formatPlace(row),
+      row.name,
+      ...scores.map((s) => (row.breakdown[s.discipline.id] ?? 0).toFixed(1)),
+      row.totalPoints.toFixed(1),
+    ]),
+    [...scores.map((_, i) => i + 2), scores.length + 2],
+    leaderboard.map((row) => row.place <= 3)
+  );
+  const sections = scores.map(({ discipline: d, rows, points, places }) => {
+    const column = scoreColumn(d, sheet.ctx, sheet.unit);
+    const body = table(
+      ["Place", "Athlete", column.label, "Points"],
+      rows.map((r) => [formatPlace(places[r.id]), r.name, r.score === null ? "—" : column.format(r.score), (points[r.id] ?? 0).toFixed(1)]),
+      [2, 3],
+      rows.map((r) => (places[r.id]?.place ?? Infinity) <= 3)
+    );
+    return `<section><h2>${escapeHtml(d.name)}</h2>\n${body}</section>`;
+  });
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(sheet.title)} results</title>
+<style>${PRINT_CSS}</style>
+</head>
+<body>
+<div class="actions"><button onclick="print()">Print</button></div>
+<h1>${escapeHtml(sheet.title)}</h1>
+<p class="date">${escapeHtml(formatDate(sheet.date))} · ${leaderboard.length} entrant${leaderboard.length === 1 ? "" : "s"}</p>
+<section><h2>Overall</h2>
+${overall}
+<p class="note">${escapeHtml(sheet.ctx.tieBreak === "shared" ? "Tied places (=) share the average of the places’ points." : "Tied places are marked =.")}</p>
+</section>
+${sections.join("\n")}
+</body>
+</html>`;
+}
+
+// Opens the sheet in a new tab, where it can be printed or saved as PDF
+export function openResultsSheet(sheet: ResultsSheet) {
+  const url = URL.createObjectURL(new Blob([resultsHtml(sheet)], { type: "text/html" }));
+  window.open(url, "_blank");
+  setTimeout(() => URL.revokeObjectURL(url), 60_000);
+}
+
+// ===== Results card =====
+
+const CARD_SIZE = 1080;
+const PODIUM: Array<{ index: number; x: number; height: number; color: string }> = [
+  { index: 1, x: 270, height: 230, color: "#c0c7d1" },
+  { index: 0, x: 540, height: 320, color: "#f5c542" },
+  { index: 2, x: 810, height: 170, color: "#cd8a4b" },
+];
+
+// Shrinks the font until `text` fits, then ellipsises
+function fitText(g: CanvasRenderingContext2D, text: string, maxWidth: number, size: number, weight = 700): string {
+  let px = size;
+  g.font = `${weight} ${px}px system-ui, sans-serif`;
+  while (g.measureText(text).width > maxWidth && px > size * 0.6) {
+    px -= 2;
+    g.font = `${weight} ${px}px system-ui, sans-serif`;
+  }
+  let out = text;
+  while (out.length > 1 && g.measureText(out).width > maxWidth) out = out.slice(0, -2) + "…";
+  return out;
+}
+
+export function drawResultsCard(sheet: ResultsSheet): HTMLCanvasElement {
+  const canvas = document.createElement("canvas");
+  canvas.width = canvas.height = CARD_SIZE;
+  const g = canvas.getContext("2d");
+  if (!g) return canvas;
+
+  const bg = g.createLinearGradient(0, 0, 0, CARD_SIZE);
+  bg.addColorStop(0, "#111827");
+  bg.addColorStop(1, "#1f2937");
+  g.fillStyle = bg;
+  g.fillRect(0, 0, CARD_SIZE, CARD_SIZE);
+
+  g.textAlign = "center";
+  g.textBaseline = "alphabetic";
+  g.fillStyle = "#f9fafb";
+  g.fillText(fitText(g, sheet.title, CARD_SIZE - 120, 72), CARD_SIZE / 2, 150);
+  g.fillStyle = "#9ca3af";
+  g.font = "400 36px system-ui, sans-serif";
+  g.fillText(formatDate(sheet.date), CARD_SIZE / 2, 210);
+
+  const base = 900;
+  const width = 250;
+  PODIUM.forEach(({ index, x, height, color }) => {
+    const row = sheet.leaderboard[index];
+    if (!row) return;
+    const top = base - height;
+    g.fillStyle = color;
+    g.beginPath();
+    g.roundRect(x - width / 2, top, width, height, [16, 16, 0, 0]);
+    g.fill();
+
+    g.fillStyle = "#111827";
+    g.font = "800 96px system-ui, sans-serif";
+    g.fillText(formatPlace(row), x, top + 110);
+    g.font = "600 34px system-ui, sans-serif";
+    g.fillText(`${row.totalPoints.toFixed(1)} pts`, x, top + 160);
+
+    g.fillStyle = "#f9fafb";
+    g.fillText(fitText(g, row.name || "—", width + 20, 40), x, top - 24);
+  });
+
+  g.fillStyle = "#9ca3af";
+  g.font = "400 30px system-ui, sans-serif";
+  const disciplines = sheet.scores.map((s) => s.discipline.name).join(" · ");
+  g.fillText(fitText(g, `${sheet.leaderboard.length} entrants · ${disciplines}`, CARD_SIZE - 120, 30, 400), CARD_SIZE / 2, 980);
+  return canvas;
+}
+
+export function downloadResultsCard(sheet: ResultsSheet): Promise<void> {
+  const canvas = drawResultsCard(sheet);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob((blob) => {
+      if (!blob) return reject(new Error("Could not draw the results image"));
+      downloadBlob(`${sheet.title.trim() || "results"}.png`, blob);
+      resolve();
+    }, "image/png")
+  );
+}
@@ -0,0 +1,50 @@
+import type { Athlete, EventMeta, RosterAthlete } from "./types";
+import { loadEvent, saveEvent } from "./storage";
+
+// Fields a roster profile owns on every linked entrant
+type ProfileFields = Pick<Athlete, "name" | "sex" | "age" | "bodyweight">;
+
+function profileFields(p: RosterAthlete): ProfileFields {
+  return { name: p.name, sex: p.sex, age: p.age, bodyweight: p.bodyweight };
+}
+
+export function profileFromAthlete(a: Athlete, id: string): RosterAthlete {
+  return { id, name: a.name.trim(), sex: a.sex, age: a.age, bodyweight: a.bodyweight, updatedAt: Date.now() };
+}
+
+export function athleteFromProfile(p: RosterAthlete, id: string): Athlete {
+  return { id, ...profileFields(p), squat: null, bench: null, deadlift: null, results: {}, rosterId: p.id };
+}
+
+// Copies the profile onto the entrant, keeping its results
+export function applyProfile(a: Athlete, p: RosterAthlete): Athlete {
+  return { ...a, ...profileFields(p), rosterId: p.id };
+}
+
+// Entrants linked to each profile across all stored events, by rosterId; one pass over the events
+export function countLinkedEntrants(index: EventMeta[]): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const meta of index) {
+    const state = loadEvent(meta.eid);
+    state?.athletes.forEach((a) => {
+      if (a.rosterId) counts[a.rosterId] = (counts[a.rosterId] ?? 0) + 1;
+    });
+  }
+  return counts;
+}
+
+// Pushes a profile's name/sex/age/bodyweight into every stored event that links to it.
+// Returns the number of events rewritten.
+export function propagateProfile(profile: RosterAthlete, index: EventMeta[]): number {
+  let changed = 0;
+  for (const meta of index) {
+    const state = loadEvent(meta.eid);
+    if (!state || !state.athletes.some((a) => a.rosterId === profile.id)) continue;
+    saveEvent(meta.eid, {
+      ...state,
+      athletes: state.athletes.map((a) => (a.rosterId === profile.id ? applyProfile(a, profile) : a)),
+    });
+    changed++;
+  }
+  return changed;
+}
@@ -0,0 +1,65 @@
+import type { EID } from "./types";
+
+// Hash routes, so screens can be bookmarked and the browser's back/forward buttons move between them:
+//   #/                              event list
+//   #/event/<eid>[/<section>]       an event, optionally scrolled to one section
+//   #/display/<eid>                 read-only projector view
+//   #/seasons   #/roster
+//   #/athlete/<identity>?name=…     one athlete's progress
+// Share links (#k=…) are separate and handled at boot.
+
+export type EventSection = "entrants" | "rankings" | "leaderboard" | "divisions";
+export const EVENT_SECTIONS: Record<EventSection, string> = {
+  entrants: "Entrants",
+  rankings: "Rankings",
+  leaderboard: "Leaderboard",
+  divisions: "Divisions",
+};
+
+export type Route =
+  | { name: "manager" }
+  | { name: "event"; eid: EID; section?: EventSection }
+  | { name: "display"; eid: EID }
+  | { name: "season" }
+  | { name: "roster" }
+  | { name: "history"; identity: string; label: string };
+
+// null = not a route (empty, or a share key)
+export function parseRoute(hash: string): Route | null {
+  if (!hash.startsWith("#/")) return null;
+  const [path, query = ""] = hash.slice(2).split("?");
+  let parts: string[];
+  try {
+    parts = path.split("/").filter(Boolean).map(decodeURIComponent);
+  } catch {
+    return null;
+  }
+  const [head, id, sub] = parts;
+  if (!head) return { name: "manager" };
+  if (head === "event" && id) {
+    return sub && sub in EVENT_SECTIONS ? { name: "event", eid: id, section: sub as EventSection } : { name: "event", eid: id };
+  }
+  if (head === "display" && id) return { name: "display", eid: id };
+  if (head === "seasons") return { name: "season" };
+  if (head === "roster") return { name: "roster" };
+  if (head === "athlete" && id) return { name: "history", identity: id, label: new URLSearchParams(query).get("name") ?? id };
+  return null;
+}
+
+export function routeHash(route: Route): string {
+  const enc = encodeURIComponent;
+  switch (route.name) {
+    case "manager":
+      return "#/";
+    case "event":
+      return `#/event/${enc(route.eid)}${route.section ? `/${route.section}` : ""}`;
+    case "display":
+      return `#/display/${enc(route.eid)}`;
+    case "season":
+      return "#/seasons";
+    case "roster":
+      return "#/roster";
+    case "history":
+      return `#/athlete/${enc(route.identity)}?name=${enc(route.label)}`;
+  }
+}
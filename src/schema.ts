@@ -0,0 +1,258 @@
+import type {
+  Athlete,
+  Attempt,
+  Discipline,
+  DivisionConfig,
+  EventMeta,
+  Lift,
+  RosterAthlete,
+  Season,
+  State,
+} from "./types";
+import { DEFAULT_DISCIPLINES, LIFTS, migrateState } from "./disciplines";
+import { DEFAULT_DIVISIONS } from "./divisions";
+
+// Version of the stored event, index, roster and season formats. Bump it when types.ts changes shape in a way
+// old data can't be read as-is, and add the step that upgrades the previous version below.
+// 1 = bare JSON written before versioning (5k in `runTime`, no disciplines list)
+// 2 = { schema, data } envelope, configurable disciplines and per-discipline results
+export const SCHEMA_VERSION = 2;
+
+export interface Stored<T> {
+  schema: number;
+  data: T;
+}
+
+type Migration = (data: unknown) => unknown;
+
+// EVENT_MIGRATIONS[n] upgrades an event from version n to n + 1
+const EVENT_MIGRATIONS: Record<number, Migration> = {
+  1: (data) => (isObj(data) && Array.isArray(data.athletes) ? migrateState(data as Parameters<typeof migrateState>[0]) : data),
+};
+
+// The index didn't change shape between 1 and 2, and the roster and seasons were bare lists until 2
+const INDEX_MIGRATIONS: Record<number, Migration> = {};
+const LIST_MIGRATIONS: Record<number, Migration> = {};
+
+export class SchemaError extends Error {
+  newer: boolean; // written by a newer app; leave it alone rather than quarantining it
+  constructor(message: string, newer = false) {
+    super(message);
+    this.name = "SchemaError";
+    this.newer = newer;
+  }
+}
+
+// Unwraps a stored value; anything without an envelope is version 1
+export function unwrap(raw: unknown): Stored<unknown> {
+  if (isObj(raw) && typeof raw.schema === "number" && "data" in raw) return { schema: raw.schema, data: raw.data };
+  return { schema: 1, data: raw };
+}
+
+export function wrap<T>(data: T): Stored<T> {
+  return { schema: SCHEMA_VERSION, data };
+}
+
+function migrate(stored: Stored<unknown>, steps: Record<number, Migration>): unknown {
+  if (!Number.isInteger(stored.schema) || stored.schema < 1) throw new SchemaError(`unknown schema version ${stored.schema}`);
+  if (stored.schema > SCHEMA_VERSION) {
+    throw new SchemaError(`saved by a newer version of the app (schema ${stored.schema}, this app reads up to ${SCHEMA_VERSION})`, true);
+  }
+  let data = stored.data;
+  for (let v = stored.schema; v < SCHEMA_VERSION; v++) data = steps[v] ? steps[v](data) : data;
+  return data;
+}
+
+// Migrates then repairs a stored event. Throws SchemaError when it can't be made into a State.
+export function upgradeState(stored: Stored<unknown>): State {
+  const data = migrate(stored, EVENT_MIGRATIONS);
+  const state = repairState(data);
+  if (!state) throw new SchemaError("not an event");
+  return state;
+}
+
+export function upgradeIndex(stored: Stored<unknown>): EventMeta[] {
+  const data = migrate(stored, INDEX_MIGRATIONS);
+  if (!Array.isArray(data)) throw new SchemaError("not an event list");
+  return data.map(repairMeta).filter((m): m is EventMeta => m !== null);
+}
+
+export function upgradeRoster(stored: Stored<unknown>): RosterAthlete[] {
+  const data = migrate(stored, LIST_MIGRATIONS);
+  if (!Array.isArray(data)) throw new SchemaError("not a roster");
+  return data.map(repairProfile).filter((p): p is RosterAthlete => p !== null);
+}
+
+export function upgradeSeasons(stored: Stored<unknown>): Season[] {
+  const data = migrate(stored, LIST_MIGRATIONS);
+  if (!Array.isArray(data)) throw new SchemaError("not a season list");
+  return data.map(repairSeason).filter((s): s is Season => s !== null);
+}
+
+// ===== Runtime validation / repair =====
+// Fields that are missing or the wrong type fall back to their defaults so EventView never sees
+// a half-formed record. Only values that can't be an event at all are rejected.
+
+type Obj = Record<string, unknown>;
+
+function isObj(v: unknown): v is Obj {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+function str(v: unknown, fallback = ""): string {
+  return typeof v === "string" ? v : typeof v === "number" ? String(v) : fallback;
+}
+function num(v: unknown): number | null {
+  const n = typeof v === "string" && v.trim() !== "" ? Number(v) : v;
+  return typeof n === "number" && Number.isFinite(n) ? n : null;
+}
+function oneOf<T extends string>(v: unknown, options: readonly T[]): T | undefined {
+  return options.includes(v as T) ? (v as T) : undefined;
+}
+function numbers(v: unknown): number[] {
+  return Array.isArray(v) ? v.map(num).filter((n): n is number => n !== null) : [];
+}
+
+function repairDiscipline(v: unknown): Discipline | null {
+  if (!isObj(v) || typeof v.id !== "string" || !v.id) return null;
+  const kind = oneOf(v.kind, ["lifts", "weight", "time", "reps", "distance"] as const);
+  if (!kind) return null;
+  const d: Discipline = {
+    id: v.id,
+    name: str(v.name, v.id),
+    kind,
+    unit: str(v.unit),
+    better: oneOf(v.better, ["higher", "lower"] as const) ?? (kind === "time" ? "lower" : "higher"),
+    scoring: oneOf(v.scoring, ["strength", "run5k", "raw"] as const) ?? (kind === "lifts" ? "strength" : "raw"),
+  };
+  if (kind === "lifts") {
+    const lifts = Array.isArray(v.lifts) ? LIFTS.filter((l) => (v.lifts as unknown[]).includes(l)) : [];
+    d.lifts = lifts.length ? lifts : [...LIFTS];
+  }
+  const multiplier = num(v.multiplier);
+  if (multiplier !== null && multiplier >= 0) d.multiplier = multiplier;
+  return d;
+}
+
+function repairAttempts(v: unknown): Athlete["attempts"] {
+  if (!isObj(v)) return undefined;
+  const out: Partial<Record<Lift, Attempt[]>> = {};
+  LIFTS.forEach((l) => {
+    const list = v[l];
+    if (!Array.isArray(list)) return;
+    out[l] = list.filter(isObj).map((a) => ({
+      weight: num(a.weight),
+      status: oneOf(a.status, ["pending", "good", "nolift"] as const) ?? "pending",
+    }));
+  });
+  return out;
+}
+
+function repairAthlete(v: unknown, i: number): Athlete | null {
+  if (!isObj(v)) return null;
+  const results: Record<string, string> = {};
+  if (isObj(v.results)) Object.entries(v.results).forEach(([k, r]) => (results[k] = str(r)));
+  const a: Athlete = {
+    id: str(v.id) || `repaired-${i}`,
+    name: str(v.name),
+    sex: oneOf(v.sex, ["M", "F", "X"] as const) ?? "M",
+    age: num(v.age),
+    bodyweight: num(v.bodyweight),
+    squat: num(v.squat),
+    bench: num(v.bench),
+    deadlift: num(v.deadlift),
+    results,
+  };
+  if (typeof v.rosterId === "string") a.rosterId = v.rosterId;
+  const attempts = repairAttempts(v.attempts);
+  if (attempts) a.attempts = attempts;
+  if (isObj(v.achievedAt)) {
+    const achievedAt: Record<string, number> = {};
+    Object.entries(v.achievedAt).forEach(([k, t]) => {
+      const n = num(t);
+      if (n !== null) achievedAt[k] = n;
+    });
+    a.achievedAt = achievedAt;
+  }
+  return a;
+}
+
+function repairDivisions(v: unknown): DivisionConfig | undefined {
+  if (!isObj(v)) return undefined;
+  const scheme = ["none", "IPF", "custom"] as const;
+  return {
+    bySex: typeof v.bySex === "boolean" ? v.bySex : DEFAULT_DIVISIONS.bySex,
+    ageClasses: oneOf(v.ageClasses, scheme) ?? DEFAULT_DIVISIONS.ageClasses,
+    ageBounds: numbers(v.ageBounds),
+    weightClasses: oneOf(v.weightClasses, scheme) ?? DEFAULT_DIVISIONS.weightClasses,
+    weightBounds: numbers(v.weightBounds),
+    allocateWithin: typeof v.allocateWithin === "boolean" ? v.allocateWithin : DEFAULT_DIVISIONS.allocateWithin,
+  };
+}
+
+// New State fields need a line here too, or they'll be dropped on load
+export function repairState(v: unknown): State | null {
+  if (!isObj(v)) return null;
+  const disciplines = Array.isArray(v.disciplines)
+    ? v.disciplines.map(repairDiscipline).filter((d): d is Discipline => d !== null)
+    : [];
+  const athletes = Array.isArray(v.athletes)
+    ? v.athletes.map(repairAthlete).filter((a): a is Athlete => a !== null)
+    : [];
+  const state: State = {
+    title: str(v.title, "Untitled event"),
+    pointsPreset: oneOf(v.pointsPreset, ["F1", "Simple", "Custom"] as const) ?? "F1",
+    pointsCustom: numbers(v.pointsCustom),
+    disciplines: disciplines.length ? disciplines : DEFAULT_DISCIPLINES,
+    athletes,
+  };
+  const strengthFormula = oneOf(v.strengthFormula, ["DOTS", "Wilks", "IPFGL", "Glossbrenner", "Total", "Ratio"] as const);
+  if (strengthFormula) state.strengthFormula = strengthFormula;
+  if (typeof v.ageAdjust === "boolean") state.ageAdjust = v.ageAdjust;
+  const runScoring = oneOf(v.runScoring, ["Time", "AgeGraded"] as const);
+  if (runScoring) state.runScoring = runScoring;
+  if (typeof v.attemptsMode === "boolean") state.attemptsMode = v.attemptsMode;
+  const units = oneOf(v.units, ["kg", "lb"] as const);
+  if (units) state.units = units;
+  const divisions = repairDivisions(v.divisions);
+  if (divisions) state.divisions = divisions;
+  const tieBreak = oneOf(v.tieBreak, ["shared", "sharedFull", "bodyweight", "earlier", "countback"] as const);
+  if (tieBreak) state.tieBreak = tieBreak;
+  const participationPoints = num(v.participationPoints);
+  if (participationPoints !== null && participationPoints > 0) state.participationPoints = participationPoints;
+  return state;
+}
+
+function repairMeta(v: unknown): EventMeta | null {
+  if (!isObj(v) || typeof v.eid !== "string" || !v.eid) return null;
+  const createdAt = num(v.createdAt) ?? 0;
+  return {
+    eid: v.eid,
+    title: str(v.title, "Untitled event"),
+    createdAt,
+    updatedAt: num(v.updatedAt) ?? createdAt,
+  };
+}
+
+function repairProfile(v: unknown): RosterAthlete | null {
+  if (!isObj(v) || typeof v.id !== "string" || !v.id) return null;
+  return {
+    id: v.id,
+    name: str(v.name),
+    sex: oneOf(v.sex, ["M", "F", "X"] as const) ?? "M",
+    age: num(v.age),
+    bodyweight: num(v.bodyweight),
+    updatedAt: num(v.updatedAt) ?? 0,
+  };
+}
+
+function repairSeason(v: unknown): Season | null {
+  if (!isObj(v) || typeof v.id !== "string" || !v.id) return null;
+  const bestOf = num(v.bestOf);
+  return {
+    id: v.id,
+    name: str(v.name, "Untitled season"),
+    eids: Array.isArray(v.eids) ? v.eids.filter((e): e is string => typeof e === "string") : [],
+    bestOf: bestOf !== null && bestOf > 0 ? bestOf : null,
+    createdAt: num(v.createdAt) ?? 0,
+  };
+}
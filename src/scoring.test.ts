@@ -0,0 +1,132 @@
+import { describe, expect, it } from "vitest";
+import type { Athlete, Discipline, State, TieBreak } from "./types";
+import { allocatePointsByRank, formatPlace, parseTimeToSeconds, scoreEvent, strengthPoints } from "./scoring";
+
+function athlete(id: string, patch: Partial<Athlete> = {}): Athlete {
+  return { id, name: id, sex: "M", age: 30, bodyweight: 80, squat: null, bench: null, deadlift: null, results: {}, ...patch };
+}
+
+const reps = (id: string): Discipline => ({ id, name: id, kind: "reps", unit: "reps", better: "higher", scoring: "raw" });
+
+function event(athletes: Athlete[], patch: Partial<State> = {}): State {
+  return { title: "Test", pointsPreset: "Custom", pointsCustom: [10, 7, 5], disciplines: [reps("a")], athletes, ...patch };
+}
+
+describe("parseTimeToSeconds", () => {
+  it("reads ss, mm:ss and hh:mm:ss", () => {
+    expect(parseTimeToSeconds("45.5")).toBe(45.5);
+    expect(parseTimeToSeconds("22:30")).toBe(1350);
+    expect(parseTimeToSeconds("1:02:03")).toBe(3723);
+    expect(parseTimeToSeconds(" 21 : 05 ")).toBe(1265);
+  });
+
+  it("rejects empty or malformed times", () => {
+    expect(parseTimeToSeconds("")).toBeNull();
+    expect(parseTimeToSeconds("abc")).toBeNull();
+    expect(parseTimeToSeconds("1::2")).toBeNull();
+    expect(parseTimeToSeconds("1:2:3:4")).toBeNull();
+  });
+});
+
+describe("strengthPoints", () => {
+  // 100 kg man and 60 kg woman, totals 700 and 400
+  it.each([
+    ["DOTS", 510.553, 527.613],
+    ["Wilks", 426.012, 445.955],
+    ["IPFGL", 88.43, 90.416],
+    ["Glossbrenner", 406.89, 394.024],
+  ] as const)("%s matches the reference values", (formula, men, women) => {
+    expect(strengthPoints(formula, 700, 100, "M")).toBeCloseTo(men, 2);
+    expect(strengthPoints(formula, 400, 60, "F")).toBeCloseTo(women, 2);
+  });
+
+  it("needs M or F, a bodyweight and a total for the sex-based formulas", () => {
+    expect(strengthPoints("DOTS", 700, 100, "X")).toBeNull();
+    expect(strengthPoints("Wilks", 700, null, "M")).toBeNull();
+    expect(strengthPoints("IPFGL", 0, 100, "M")).toBeNull();
+  });
+
+  it("scores X athletes on raw total and total/bodyweight", () => {
+    expect(strengthPoints("Total", 500, null, "X")).toBe(500);
+    expect(strengthPoints("Ratio", 500, 100, "X")).toBe(5);
+  });
+});
+
+describe("allocatePointsByRank", () => {
+  const compare = (a: { score: number | null }, b: { score: number | null }) => (b.score ?? -Infinity) - (a.score ?? -Infinity);
+  const rows = [
+    { id: "x", score: 20 },
+    { id: "y", score: 20 },
+    { id: "z", score: 10 },
+    { id: "n", score: null },
+  ];
+
+  it("splits the points of the places a tie covers", () => {
+    const { points, places } = allocatePointsByRank(rows, [10, 7, 5], compare);
+    expect(points).toEqual({ x: 8.5, y: 8.5, z: 5, n: 0 });
+    expect(formatPlace(places.x)).toBe("=1");
+    expect(formatPlace(places.z)).toBe("3");
+    expect(places.n).toBeUndefined();
+  });
+
+  it("gives each tied row the full points of their place when sharedFull", () => {
+    expect(allocatePointsByRank(rows, [10, 7, 5], compare, true).points).toEqual({ x: 10, y: 10, z: 5, n: 0 });
+  });
+
+  it("gives places past the end of the table nothing", () => {
+    expect(allocatePointsByRank(rows, [10], compare).points).toEqual({ x: 5, y: 5, z: 0, n: 0 });
+  });
+});
+
+describe("scoreEvent tie-breaks", () => {
+  // x and y level on 20 reps; y is lighter, x entered first
+  const athletes = [
+    athlete("x", { bodyweight: 80, results: { a: "20" }, achievedAt: { a: 100 } }),
+    athlete("y", { bodyweight: 70, results: { a: "20" }, achievedAt: { a: 200 } }),
+    athlete("z", { results: { a: "10" }, achievedAt: { a: 50 } }),
+  ];
+  const run = (tieBreak: TieBreak) => {
+    const { scores, leaderboard } = scoreEvent(event(athletes, { tieBreak }));
+    return { points: scores[0].points, order: leaderboard.map((r) => `${formatPlace(r)} ${r.id}`) };
+  };
+
+  it("shared: tied athletes share the place and average the points", () => {
+    expect(run("shared")).toEqual({ points: { x: 8.5, y: 8.5, z: 5 }, order: ["=1 x", "=1 y", "3 z"] });
+  });
+
+  it("sharedFull: tied athletes share the place and its full points", () => {
+    expect(run("sharedFull")).toEqual({ points: { x: 10, y: 10, z: 5 }, order: ["=1 x", "=1 y", "3 z"] });
+  });
+
+  it("bodyweight: the lighter athlete wins", () => {
+    expect(run("bodyweight")).toEqual({ points: { y: 10, x: 7, z: 5 }, order: ["1 y", "2 x", "3 z"] });
+  });
+
+  it("earlier: the result entered first wins", () => {
+    expect(run("earlier")).toEqual({ points: { x: 10, y: 7, z: 5 }, order: ["1 x", "2 y", "3 z"] });
+  });
+
+  it("countback: level totals go to the better placings, in order", () => {
+    // everyone ends on 10 points: x 1st + 3rd, y 2nd + 2nd, z 3rd + 1st
+    const state = event(
+      [
+        athlete("x", { results: { a: "30", b: "1" } }),
+        athlete("y", { results: { a: "20", b: "2" } }),
+        athlete("z", { results: { a: "10", b: "3" } }),
+      ],
+      { disciplines: [reps("a"), reps("b")], pointsCustom: [10, 5, 0] }
+    );
+    const order = (tieBreak: TieBreak) => scoreEvent({ ...state, tieBreak }).leaderboard.map((r) => `${formatPlace(r)} ${r.id}`);
+    expect(order("shared")).toEqual(["=1 x", "=1 y", "=1 z"]);
+    expect(order("countback")).toEqual(["=1 x", "=1 z", "3 y"]);
+  });
+
+  it("applies multipliers and participation points to placed athletes only", () => {
+    const state = event([athlete("x", { results: { a: "5" } }), athlete("y", { results: { a: "1" } }), athlete("n")], {
+      disciplines: [{ ...reps("a"), multiplier: 2 }],
+      pointsCustom: [10],
+      participationPoints: 3,
+    });
+    expect(scoreEvent(state).scores[0].points).toEqual({ x: 20, y: 6, n: 0 });
+  });
+});
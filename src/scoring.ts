@@ -0,0 +1,492 @@
+import type { Athlete, Discipline, Lift, RunScoring, State, StrengthFormula, TieBreak, WeightUnit } from "./types";
+import { LIFTS } from "./disciplines";
+import { formatWeight } from "./units";
+
+// ===== Util helpers (strength formulas, time parsing, points) =====
+export function parseTimeToSeconds(time: string): number | null {
+  if (!time) return null;
+  const parts = time.split(":").map((p) => p.trim());
+  if (parts.some((p) => p === "" || isNaN(Number(p)))) return null;
+  const nums = parts.map((p) => Number(p));
+  if (nums.length === 1) return nums[0];
+  if (nums.length === 2) return nums[0] * 60 + nums[1];
+  if (nums.length === 3) return nums[0] * 3600 + nums[1] * 60 + nums[2];
+  return null;
+}
+export function toNumber(n: unknown): number | null {
+  if (n === "" || n === null || n === undefined) return null;
+  if (typeof n !== "number" && typeof n !== "string") return null;
+  const v = Number(n);
+  return isNaN(v) ? null : v;
+}
+
+// 5k: neutral performance index (higher = better)
+function runPerformanceIndex(seconds: number | null): number | null {
+  if (!seconds || seconds <= 0) return null;
+  return 780 / seconds;
+}
+
+// 5k: WMA-style age grading. Open standards are the road 5k world-class times; age factors are
+// anchored every 5 years (with single years for juniors) and interpolated linearly in between.
+const RUN_5K_OPEN_STANDARD: Record<SexDOTS, number> = { M: 769, F: 857 }; // seconds
+const RUN_5K_AGE_FACTORS: Record<SexDOTS, Array<[number, number]>> = {
+  M: [
+    [10, 0.787], [12, 0.846], [14, 0.898], [15, 0.922], [16, 0.944], [17, 0.963], [18, 0.978], [19, 0.99], [20, 0.998],
+    [22, 1.0], [30, 1.0], [35, 0.979], [40, 0.947], [45, 0.9155], [50, 0.8838], [55, 0.8521], [60, 0.8204],
+    [65, 0.7887], [70, 0.757], [75, 0.7188], [80, 0.6669], [85, 0.5987], [90, 0.5112], [95, 0.401], [100, 0.277],
+  ],
+  F: [
+    [10, 0.779], [12, 0.84], [14, 0.893], [15, 0.917], [16, 0.94], [17, 0.96], [18, 0.976], [19, 0.989], [20, 0.997],
+    [22, 1.0], [30, 1.0], [35, 0.9778], [40, 0.9446], [45, 0.9114], [50, 0.8782], [55, 0.845], [60, 0.8082],
+    [65, 0.7656], [70, 0.7171], [75, 0.6629], [80, 0.6028], [85, 0.537], [90, 0.4654], [95, 0.389], [100, 0.306],
+  ],
+};
+function runAgeFactor(age: number, sex: SexDOTS): number {
+  const table = RUN_5K_AGE_FACTORS[sex];
+  if (age <= table[0][0]) return table[0][1];
+  for (let i = 1; i < table.length; i++) {
+    const [a1, f1] = table[i];
+    if (age <= a1) {
+      const [a0, f0] = table[i - 1];
+      return f0 + ((f1 - f0) * (age - a0)) / (a1 - a0);
+    }
+  }
+  return table[table.length - 1][1];
+}
+// Age-graded percentage (100 = world standard for that age and sex). Missing age grades against the open standard.
+function runAgeGradedPercent(seconds: number | null, sex: "M" | "F" | "X", age: number | null): number | null {
+  if (!seconds || seconds <= 0) return null;
+  if (sex === "X") return null;
+  const factor = age === null ? 1 : runAgeFactor(age, sex);
+  return ((RUN_5K_OPEN_STANDARD[sex] / factor) / seconds) * 100;
+}
+
+export const RUN_SCORINGS: Record<RunScoring, { label: string; note: string }> = {
+  Time: { label: "Score", note: "Ranking by 5k time (faster is better)." },
+  AgeGraded: { label: "Age grade %", note: "Ranking by WMA-style age-graded percentage (sex and age adjusted)." },
+};
+
+type SexDOTS = "M" | "F";
+const DOTS_COEFF: Record<SexDOTS, { A: number; B: number; C: number; D: number; E: number; F: number }> = {
+  M: { A: 47.46178854, B: 8.472061379, C: 0.07369410346, D: -0.001395833811, E: 0.00000707665973070743, F: -0.0000000120804336482315 },
+  F: { A: -125.4255398, B: 13.71219419, C: -0.03307250631, D: -0.001050400051, E: 0.00000938773881462799, F: -0.000000023334613884954 },
+};
+function dotsPoints(totalKg: number | null, bodyweightKg: number | null, sex: "M" | "F" | "X"): number | null {
+  if (!totalKg || !bodyweightKg || bodyweightKg <= 0) return null;
+  const s: SexDOTS | null = sex === "F" ? "F" : sex === "M" ? "M" : null;
+  if (!s) return null;
+  const { A, B, C, D, E, F } = DOTS_COEFF[s];
+  const x = bodyweightKg;
+  const denom = A + B * x + C * x ** 2 + D * x ** 3 + E * x ** 4 + F * x ** 5;
+  if (!isFinite(denom) || denom === 0) return null;
+  return (600 / denom) * totalKg;
+}
+
+// Wilks (original coefficients)
+const WILKS_COEFF: Record<SexDOTS, { A: number; B: number; C: number; D: number; E: number; F: number }> = {
+  M: { A: -216.0475144, B: 16.2606339, C: -0.002388645, D: -0.00113732, E: 0.00000701863, F: -0.00000001291 },
+  F: { A: 594.31747775582, B: -27.23842536447, C: 0.82112226871, D: -0.00930733913, E: 0.00004731582, F: -0.00000009054 },
+};
+function wilksCoefficient(bodyweightKg: number, sex: SexDOTS): number | null {
+  const { A, B, C, D, E, F } = WILKS_COEFF[sex];
+  const x = bodyweightKg;
+  const denom = A + B * x + C * x ** 2 + D * x ** 3 + E * x ** 4 + F * x ** 5;
+  if (!isFinite(denom) || denom === 0) return null;
+  return 500 / denom;
+}
+function wilksPoints(totalKg: number | null, bodyweightKg: number | null, sex: "M" | "F" | "X"): number | null {
+  if (!totalKg || !bodyweightKg || bodyweightKg <= 0) return null;
+  if (sex === "X") return null;
+  const coeff = wilksCoefficient(bodyweightKg, sex);
+  return coeff === null ? null : coeff * totalKg;
+}
+
+// IPF GL points (classic/raw, full powerlifting)
+const IPFGL_COEFF: Record<SexDOTS, { A: number; B: number; C: number }> = {
+  M: { A: 1199.72839, B: 1025.18162, C: 0.00921 },
+  F: { A: 610.32796, B: 1045.59282, C: 0.03048 },
+};
+function ipfGlPoints(totalKg: number | null, bodyweightKg: number | null, sex: "M" | "F" | "X"): number | null {
+  if (!totalKg || !bodyweightKg || bodyweightKg <= 0) return null;
+  if (sex === "X") return null;
+  const { A, B, C } = IPFGL_COEFF[sex];
+  const denom = A - B * Math.exp(-C * bodyweightKg);
+  if (!isFinite(denom) || denom <= 0) return null;
+  return (100 / denom) * totalKg;
+}
+
+// Glossbrenner: average of Schwartz/Malone and Wilks, with linear tails for heavy lifters
+function schwartzCoefficient(bodyweightKg: number): number {
+  const x = Math.min(166, Math.max(40, bodyweightKg));
+  if (x <= 126) {
+    return (
+      6.31926 -
+      0.262349 * x +
+      0.0051155 * x ** 2 -
+      0.0000519738 * x ** 3 +
+      0.000000267626 * x ** 4 -
+      0.000000000540132 * x ** 5 -
+      0.0000000000000728875 * x ** 6
+    );
+  }
+  if (x <= 136) return 0.521 - 0.0012 * (x - 125);
+  if (x <= 146) return 0.509 - 0.0011 * (x - 136);
+  if (x <= 156) return 0.4989 - 0.001 * (x - 146);
+  return 0.496 - 0.0009 * (x - 156);
+}
+function maloneCoefficient(bodyweightKg: number): number {
+  const x = Math.max(29.24, bodyweightKg);
+  return 106.011586323613 * x ** -1.293027130579051 + 0.322935585328304;
+}
+function glossbrennerPoints(totalKg: number | null, bodyweightKg: number | null, sex: "M" | "F" | "X"): number | null {
+  if (!totalKg || !bodyweightKg || bodyweightKg <= 0) return null;
+  if (sex === "X") return null;
+  const x = bodyweightKg;
+  let coeff: number | null;
+  if (sex === "M") {
+    const wilks = wilksCoefficient(x, "M");
+    coeff = x < 153.05 ? (wilks === null ? null : (schwartzCoefficient(x) + wilks) / 2) : (schwartzCoefficient(x) - 0.000821668402557 * x + 0.676940740094416) / 2;
+  } else {
+    const wilks = wilksCoefficient(x, "F");
+    coeff = x < 106.3 ? (wilks === null ? null : (maloneCoefficient(x) + wilks) / 2) : (maloneCoefficient(x) - 0.000313738002024 * x + 0.852664892884785) / 2;
+  }
+  return coeff === null || !isFinite(coeff) ? null : coeff * totalKg;
+}
+
+// Raw total and total/bodyweight ratio don't need sex, so X athletes score too
+function rawTotalPoints(totalKg: number | null): number | null {
+  return totalKg ? totalKg : null;
+}
+function bodyweightRatioPoints(totalKg: number | null, bodyweightKg: number | null): number | null {
+  if (!totalKg || !bodyweightKg || bodyweightKg <= 0) return null;
+  return totalKg / bodyweightKg;
+}
+
+export const STRENGTH_FORMULAS: Record<StrengthFormula, { label: string; note: string }> = {
+  DOTS: { label: "DOTS", note: "Ranking by DOTS points (auto)." },
+  Wilks: { label: "Wilks", note: "Ranking by Wilks points (auto)." },
+  IPFGL: { label: "IPF GL", note: "Ranking by IPF GL points (auto)." },
+  Glossbrenner: { label: "Glossbrenner", note: "Ranking by Glossbrenner points (auto)." },
+  Total: { label: "Total", note: "Ranking by raw total, bodyweight ignored." },
+  Ratio: { label: "Total/BW", note: "Ranking by total divided by bodyweight." },
+};
+export function strengthPoints(
+  formula: StrengthFormula,
+  totalKg: number | null,
+  bodyweightKg: number | null,
+  sex: "M" | "F" | "X"
+): number | null {
+  switch (formula) {
+    case "DOTS":
+      return dotsPoints(totalKg, bodyweightKg, sex);
+    case "Wilks":
+      return wilksPoints(totalKg, bodyweightKg, sex);
+    case "IPFGL":
+      return ipfGlPoints(totalKg, bodyweightKg, sex);
+    case "Glossbrenner":
+      return glossbrennerPoints(totalKg, bodyweightKg, sex);
+    case "Total":
+      return rawTotalPoints(totalKg);
+    case "Ratio":
+      return bodyweightRatioPoints(totalKg, bodyweightKg);
+  }
+}
+
+// Age coefficients: Foster for juniors (14–23), McCulloch for masters (40–80), Foster beyond 80.
+// Ages in between are treated as open (1.0).
+const JUNIOR_AGE_COEFF: Record<number, number> = {
+  14: 1.23, 15: 1.18, 16: 1.13, 17: 1.08, 18: 1.06, 19: 1.04, 20: 1.03, 21: 1.02, 22: 1.01, 23: 1.0,
+};
+const MASTERS_AGE_COEFF: Record<number, number> = {
+  40: 1.0, 41: 1.01, 42: 1.02, 43: 1.031, 44: 1.043, 45: 1.055, 46: 1.068, 47: 1.082, 48: 1.097, 49: 1.113,
+  50: 1.13, 51: 1.147, 52: 1.165, 53: 1.184, 54: 1.204, 55: 1.225, 56: 1.246, 57: 1.268, 58: 1.291, 59: 1.315,
+  60: 1.34, 61: 1.366, 62: 1.393, 63: 1.421, 64: 1.45, 65: 1.48, 66: 1.511, 67: 1.543, 68: 1.576, 69: 1.61,
+  70: 1.645, 71: 1.681, 72: 1.718, 73: 1.756, 74: 1.795, 75: 1.835, 76: 1.876, 77: 1.918, 78: 1.961, 79: 2.005,
+  80: 2.05, 81: 2.096, 82: 2.143, 83: 2.19, 84: 2.238, 85: 2.287, 86: 2.337, 87: 2.388, 88: 2.44, 89: 2.494,
+  90: 2.549,
+};
+export function ageCoefficient(age: number | null): number {
+  if (age === null || !isFinite(age)) return 1;
+  const a = Math.floor(age);
+  if (a < 14) return JUNIOR_AGE_COEFF[14];
+  if (a <= 23) return JUNIOR_AGE_COEFF[a];
+  if (a < 40) return 1;
+  return MASTERS_AGE_COEFF[Math.min(a, 90)];
+}
+
+// 1-based; tied places print as "=2"
+export type Placing = { place: number; tied: boolean };
+
+export function formatPlace(p: Placing | undefined): string {
+  if (!p) return "—";
+  return p.tied ? `=${p.place}` : String(p.place);
+}
+
+// Runs of consecutive rows that `compare` can't separate
+function tiedGroups<T>(sorted: T[], compare: (a: T, b: T) => number): T[][] {
+  const groups: T[][] = [];
+  sorted.forEach((row, i) => {
+    if (i > 0 && compare(sorted[i - 1], row) === 0) groups[groups.length - 1].push(row);
+    else groups.push([row]);
+  });
+  return groups;
+}
+
+// Rows must already be sorted by `compare`; rows it leaves level share a place
+export function placeRows<T extends { id: string }>(sorted: T[], compare: (a: T, b: T) => number): Record<string, Placing> {
+  const places: Record<string, Placing> = {};
+  let place = 1;
+  tiedGroups(sorted, compare).forEach((group) => {
+    group.forEach((r) => (places[r.id] = { place, tied: group.length > 1 }));
+    place += group.length;
+  });
+  return places;
+}
+
+// Points by place for rows sorted by `compare`. A tied group covering places 2–3 either splits
+// their points (average) or each takes place 2's points (sharedFull). No score = no place, 0 points.
+export function allocatePointsByRank<T extends { id: string; score: number | null }>(
+  sorted: T[],
+  pointsTable: number[],
+  compare: (a: T, b: T) => number,
+  sharedFull = false
+) {
+  const points: Record<string, number> = {};
+  const scored = sorted.filter((r) => r.score !== null);
+  sorted.forEach((r) => (points[r.id] = 0));
+  const places = placeRows(scored, compare);
+  tiedGroups(scored, compare).forEach((group) => {
+    const first = places[group[0].id].place - 1;
+    let sum = 0;
+    for (let k = first; k < first + group.length; k++) sum += pointsTable[k] ?? 0;
+    const perHead = sharedFull ? pointsTable[first] ?? 0 : sum / group.length;
+    group.forEach((r) => (points[r.id] = perHead));
+  });
+  return { points, places };
+}
+
+export const F1_POINTS = [25, 18, 15, 12, 10, 8, 6, 4, 2, 1];
+export const SIMPLE_POINTS = [10, 7, 5, 3, 2, 1];
+
+export function formatSeconds(total: number): string {
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  const ss = `${s < 10 ? "0" : ""}${Number.isInteger(s) ? s : s.toFixed(1)}`;
+  return h ? `${h}:${String(m).padStart(2, "0")}:${ss}` : `${m}:${ss}`;
+}
+
+// ===== Discipline scoring =====
+export type ScoreRow = { id: string; name: string; score: number | null; raw?: number | null };
+
+export interface ScoringContext {
+  strengthFormula: StrengthFormula;
+  ageAdjust: boolean;
+  runScoring: RunScoring;
+  pointsTable: number[];
+  tieBreak: TieBreak;
+  participationPoints: number; // floor for anyone with a result; 0 = none
+}
+
+export function liftTotal(a: Athlete, lifts: Lift[]): number {
+  return lifts.reduce((sum, l) => sum + (a[l] ?? 0), 0);
+}
+
+// Entries are parsed by kind: times to seconds, everything else as a number
+export function parseResult(d: Discipline, text: string | undefined): number | null {
+  if (text === undefined) return null;
+  return d.kind === "time" ? parseTimeToSeconds(text) : toNumber(text);
+}
+
+// The athlete's entered result for a discipline (lift total in kg, seconds, reps…)
+export function disciplineResult(d: Discipline, a: Athlete): number | null {
+  return d.kind === "lifts" ? liftTotal(a, d.lifts ?? []) || null : parseResult(d, a.results[d.id]);
+}
+
+// ===== Tie-breaks =====
+export const TIE_BREAKS: Record<TieBreak, { label: string; note: string }> = {
+  shared: { label: "Shared, average points", note: "Tied athletes share the place and split the points of the places they cover." },
+  sharedFull: { label: "Shared, full points", note: "Tied athletes share the place and each get its full points." },
+  bodyweight: { label: "Lighter bodyweight", note: "The lighter athlete wins a tie." },
+  earlier: { label: "Earlier result", note: "Whoever's result was entered first wins a tie." },
+  countback: {
+    label: "Countback",
+    note: "Overall ties go to the better best discipline placing, then the next best. Ties within a discipline are shared.",
+  },
+};
+
+// Stamps the lifts and results that differ between two versions of an athlete with `now`,
+// so the "earlier" tie-break knows the order results came in
+export function stampEntries(prev: Athlete, next: Athlete, now = Date.now()): Athlete {
+  const changed = [
+    ...LIFTS.filter((l) => prev[l] !== next[l]),
+    ...Object.keys(next.results).filter((id) => prev.results[id] !== next.results[id]),
+  ];
+  if (!changed.length) return next;
+  const achievedAt = { ...next.achievedAt };
+  changed.forEach((key) => (achievedAt[key] = now));
+  return { ...next, achievedAt };
+}
+
+// When the athlete's current result for a discipline was entered; a lift total counts from its last lift
+function enteredAt(d: Discipline, a: Athlete): number | null {
+  const keys = d.kind === "lifts" ? (d.lifts ?? []).filter((l) => a[l] !== null) : [d.id];
+  const times = keys.map((k) => a.achievedAt?.[k]);
+  return times.length && times.every((t) => t !== undefined) ? Math.max(...(times as number[])) : null;
+}
+
+// Smaller first; missing values go last
+function ascending(x: number | null | undefined, y: number | null | undefined): number {
+  if (x == null || y == null) return x == null ? (y == null ? 0 : 1) : -1;
+  return x - y;
+}
+
+// Orders two athletes with equal scores; 0 = still tied
+function athleteTieBreak(tieBreak: TieBreak, disciplines: Discipline[]): (a: Athlete, b: Athlete) => number {
+  if (tieBreak === "bodyweight") return (a, b) => ascending(a.bodyweight, b.bodyweight);
+  if (tieBreak !== "earlier") return () => 0;
+  const latest = (a: Athlete) => {
+    const times = disciplines.filter((d) => disciplineResult(d, a) !== null).map((d) => enteredAt(d, a));
+    return times.length && !times.includes(null) ? Math.max(...(times as number[])) : null;
+  };
+  return (a, b) => ascending(latest(a), latest(b));
+}
+
+export function scoreDiscipline(d: Discipline, athletes: Athlete[], ctx: ScoringContext) {
+  const rows: ScoreRow[] = athletes.map((a) => {
+    if (d.scoring === "strength") {
+      const raw = strengthPoints(ctx.strengthFormula, liftTotal(a, d.lifts ?? []), a.bodyweight ?? null, a.sex);
+      const score = raw !== null && ctx.ageAdjust ? raw * ageCoefficient(a.age) : raw;
+      return { id: a.id, name: a.name, score, raw };
+    }
+    const value = disciplineResult(d, a);
+    if (d.scoring === "run5k") {
+      const score = ctx.runScoring === "AgeGraded" ? runAgeGradedPercent(value, a.sex, a.age) : runPerformanceIndex(value);
+      return { id: a.id, name: a.name, score };
+    }
+    return { id: a.id, name: a.name, score: value };
+  });
+  // strength and 5k scores are indices where higher is better; raw values follow the discipline
+  const dir = d.scoring === "raw" && d.better === "lower" ? -1 : 1;
+  const byId = new Map(athletes.map((a) => [a.id, a]));
+  const tie = athleteTieBreak(ctx.tieBreak, [d]);
+  const compare = (a: ScoreRow, b: ScoreRow) => {
+    if (a.score === null || b.score === null) return a.score === b.score ? 0 : a.score === null ? 1 : -1;
+    return dir * (b.score - a.score) || tie(byId.get(a.id)!, byId.get(b.id)!);
+  };
+  rows.sort(compare);
+  const { points, places } = allocatePointsByRank(rows, ctx.pointsTable, compare, ctx.tieBreak === "sharedFull");
+  // the participation floor is in table points, so the weighting applies on top of it
+  const weight = d.multiplier ?? 1;
+  Object.keys(points).forEach((id) => {
+    if (places[id]) points[id] = Math.max(points[id], ctx.participationPoints) * weight;
+  });
+  return { rows, points, places } as const;
+}
+
+export function disciplineScoreLabel(d: Discipline, ctx: ScoringContext): string {
+  if (d.scoring === "strength") {
+    const label = STRENGTH_FORMULAS[ctx.strengthFormula].label;
+    return ctx.ageAdjust ? `${label} (age adj.)` : label;
+  }
+  if (d.scoring === "run5k") return RUN_SCORINGS[ctx.runScoring].label;
+  return d.unit || "Result";
+}
+
+export function disciplineNote(d: Discipline, ctx: ScoringContext): string {
+  const note = rankingNote(d, ctx);
+  return d.multiplier !== undefined && d.multiplier !== 1 ? `${note} Points count ×${d.multiplier}.` : note;
+}
+
+function rankingNote(d: Discipline, ctx: ScoringContext): string {
+  if (d.scoring === "strength") {
+    const note = STRENGTH_FORMULAS[ctx.strengthFormula].note;
+    return ctx.ageAdjust ? `${note} Age-adjusted with Foster junior / McCulloch masters coefficients.` : note;
+  }
+  if (d.scoring === "run5k") return RUN_SCORINGS[ctx.runScoring].note;
+  return `Ranking by ${d.unit || "result"} (${d.better} is better).`;
+}
+
+export function formatDisciplineScore(d: Discipline): (n: number) => string {
+  if (d.scoring !== "raw") return (n) => n.toFixed(3);
+  if (d.kind === "time") return formatSeconds;
+  return (n) => String(Number(n.toFixed(2)));
+}
+
+// Score column heading and formatter; a lift total (raw, or through the "Total" formula) shows as a
+// weight in the event's unit
+export function scoreColumn(d: Discipline, ctx: ScoringContext, unit: WeightUnit): { label: string; format: (n: number) => string } {
+  const weight = (n: number) => formatWeight(n, unit, false);
+  if (d.kind === "lifts" && d.scoring === "raw") return { label: `Total (${unit})`, format: weight };
+  if (d.scoring === "strength" && ctx.strengthFormula === "Total") {
+    return { label: ctx.ageAdjust ? `Total (${unit}) (age adj.)` : `Total (${unit})`, format: weight };
+  }
+  return { label: disciplineScoreLabel(d, ctx), format: formatDisciplineScore(d) };
+}
+
+export function resolvePointsTable(state: State): number[] {
+  if (state.pointsPreset === "F1") return F1_POINTS;
+  if (state.pointsPreset === "Simple") return SIMPLE_POINTS;
+  return state.pointsCustom.length ? state.pointsCustom : SIMPLE_POINTS;
+}
+
+export function scoringContext(state: State): ScoringContext {
+  return {
+    strengthFormula: state.strengthFormula ?? "DOTS",
+    ageAdjust: state.ageAdjust ?? false,
+    runScoring: state.runScoring ?? "Time",
+    pointsTable: resolvePointsTable(state),
+    tieBreak: state.tieBreak ?? "shared",
+    participationPoints: state.participationPoints ?? 0,
+  };
+}
+
+export type LeaderboardRow = { id: string; name: string; totalPoints: number; breakdown: Record<string, number> } & Placing;
+
+// Best discipline placings first, compared one by one; no placing counts as last
+function countback(a: string, b: string, places: Array<Record<string, Placing>>): number {
+  const list = (id: string) => places.map((p) => p[id]?.place ?? Infinity).sort((x, y) => x - y);
+  const pa = list(a);
+  const pb = list(b);
+  for (let i = 0; i < pa.length; i++) if (pa[i] !== pb[i]) return pa[i] < pb[i] ? -1 : 1;
+  return 0;
+}
+
+// Per-discipline rankings plus the overall leaderboard for one event
+export function scoreEvent(state: State, ctx: ScoringContext = scoringContext(state)) {
+  const scores = state.disciplines.map((d) => ({ discipline: d, ...scoreDiscipline(d, state.athletes, ctx) }));
+  const map: Record<string, { name: string; totalPoints: number; breakdown: Record<string, number> }> = {};
+  state.athletes.forEach((a) => {
+    map[a.id] = { name: a.name, totalPoints: 0, breakdown: {} };
+  });
+  scores.forEach(({ discipline, points }) => {
+    Object.entries(points).forEach(([id, pts]) => {
+      map[id].breakdown[discipline.id] = (map[id].breakdown[discipline.id] ?? 0) + pts;
+      map[id].totalPoints += pts;
+    });
+  });
+
+  const byId = new Map(state.athletes.map((a) => [a.id, a]));
+  const places = scores.map((s) => s.places);
+  const athleteTie = athleteTieBreak(ctx.tieBreak, state.disciplines);
+  const tie =
+    ctx.tieBreak === "countback"
+      ? (a: string, b: string) => countback(a, b, places)
+      : (a: string, b: string) => athleteTie(byId.get(a)!, byId.get(b)!);
+  // averaged points can differ in the last bits depending on summing order
+  const compare = (a: { id: string; totalPoints: number }, b: { id: string; totalPoints: number }) => {
+    const diff = b.totalPoints - a.totalPoints;
+    return Math.abs(diff) > 1e-9 ? diff : tie(a.id, b.id);
+  };
+  const totals = Object.entries(map).map(([id, v]) => ({ id, ...v }));
+  totals.sort(compare);
+  const placed = placeRows(totals, compare);
+  const leaderboard: LeaderboardRow[] = totals.map((r) => ({ ...r, ...placed[r.id] }));
+  return { scores, leaderboard };
+}
+
+// Places again after filtering a leaderboard, keeping its order and ties
+export function renumberPlaces(rows: LeaderboardRow[]): LeaderboardRow[] {
+  const placed = placeRows(rows, (a, b) => a.place - b.place);
+  return rows.map((r) => ({ ...r, ...placed[r.id] }));
+}
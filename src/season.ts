@@ -0,0 +1,61 @@
+import type { Athlete, EID, EventMeta, Season } from "./types";
+import { loadEvent } from "./storage";
+import { scoreEvent } from "./scoring";
+
+// The same person across events: the roster profile when linked, otherwise the name
+// matched case- and whitespace-insensitively
+export function athleteIdentity(a: Pick<Athlete, "name" | "rosterId">): string {
+  if (a.rosterId) return `roster:${a.rosterId}`;
+  return a.name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export interface SeasonRow {
+  key: string;
+  name: string;
+  perEvent: Record<EID, number>; // leaderboard total per event entered
+  counted: EID[]; // events that count towards the season total (all, or the best N)
+  total: number;
+}
+
+export interface SeasonStandings {
+  events: EventMeta[]; // season events that still exist, oldest first
+  rows: SeasonRow[];
+}
+
+export function computeSeasonStandings(season: Season, index: EventMeta[]): SeasonStandings {
+  const events = season.eids
+    .map((eid) => index.find((m) => m.eid === eid))
+    .filter((m): m is EventMeta => !!m)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+  const byKey = new Map<string, SeasonRow>();
+  for (const meta of events) {
+    const state = loadEvent(meta.eid);
+    if (!state) continue;
+    const { leaderboard } = scoreEvent(state);
+    // Within one event every entrant is their own row: a second unlinked "Sam" is someone else,
+    // not more points for the first
+    const claimed = new Set<string>();
+    for (const row of leaderboard) {
+      const athlete = state.athletes.find((a) => a.id === row.id);
+      let key = athlete ? athleteIdentity(athlete) : "";
+      if (!key) continue;
+      if (claimed.has(key)) key = `${key}@${meta.eid}:${row.id}`;
+      claimed.add(key);
+      const entry = byKey.get(key) ?? { key, name: row.name.trim(), perEvent: {}, counted: [], total: 0 };
+      entry.name = row.name.trim(); // latest spelling wins
+      entry.perEvent[meta.eid] = row.totalPoints;
+      byKey.set(key, entry);
+    }
+  }
+
+  const rows = [...byKey.values()];
+  for (const r of rows) {
+    const entered = Object.entries(r.perEvent).sort((a, b) => b[1] - a[1]);
+    const kept = season.bestOf && season.bestOf > 0 ? entered.slice(0, season.bestOf) : entered;
+    r.counted = kept.map(([eid]) => eid);
+    r.total = kept.reduce((sum, [, pts]) => sum + pts, 0);
+  }
+  rows.sort((a, b) => b.total - a.total);
+  return { events, rows };
+}
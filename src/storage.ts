@@ -1,50 +1,361 @@
-import type { EID, EventMeta, State } from "./types";
+import type { EID, EventMeta, RosterAthlete, Season, State, WeightUnit } from "./types";
+import {
+  SCHEMA_VERSION,
+  SchemaError,
+  unwrap,
+  upgradeIndex,
+  upgradeRoster,
+  upgradeSeasons,
+  upgradeState,
+  wrap,
+  type Stored,
+} from "./schema";
+import { EMPTY_HISTORY, type UndoHistory } from "./undo";
+import {
+  StorageWriteError,
+  localStorageAdapter,
+  openStorageAdapter,
+  type StorageAdapter,
+  type StorageBackend,
+} from "./storageAdapter";
 
 const KEY_INDEX = "liftwin:index";
 const KEY_EVENT_PREFIX = "liftwin:event:";
 const KEY_THEME = "liftwin:theme";
 const KEY_LAST_OPEN = "liftwin:lastOpen";
+const KEY_SEASONS = "liftwin:seasons";
+const KEY_ROSTER = "liftwin:roster";
+const KEY_UNITS = "liftwin:units";
+const KEY_SYNC_URL = "liftwin:syncUrl";
+const KEY_QUARANTINE = "liftwin:quarantine";
+const KEY_HISTORY_PREFIX = "liftwin:history:";
 
 export function eventKey(eid: EID) {
   return `${KEY_EVENT_PREFIX}${eid}`;
 }
 
-export function loadIndex(): EventMeta[] {
+// ===== Backend =====
+// Data records live in IndexedDB (or localStorage where that's missing) behind a StorageAdapter.
+// Everything is read into memory once by initStorage() so the load* functions below stay
+// synchronous; writes go to memory first and then to the adapter, and their outcome is published
+// as the save status. Other tabs are told about every write so their copies don't go stale.
+// Small preferences (theme, units, last open) stay in localStorage.
+
+function isDataKey(key: string) {
+  return (
+    key === KEY_INDEX ||
+    key === KEY_SEASONS ||
+    key === KEY_ROSTER ||
+    key === KEY_QUARANTINE ||
+    key.startsWith(KEY_EVENT_PREFIX) ||
+    key.startsWith(KEY_HISTORY_PREFIX)
+  );
+}
+
+let adapter: StorageAdapter = localStorageAdapter();
+let cache = new Map<string, string>();
+
+export interface SaveStatus {
+  backend: StorageBackend;
+  pending: number; // writes in flight
+  lastSavedAt: number | null; // epoch ms of the last write that reached storage
+  error: StorageWriteError | null; // last failure, cleared by the next successful write
+}
+
+let status: SaveStatus = { backend: adapter.backend, pending: 0, lastSavedAt: null, error: null };
+const listeners = new Set<() => void>();
+const failed = new Set<string>(); // keys whose latest write didn't reach storage
+
+function setStatus(patch: Partial<SaveStatus>) {
+  status = { ...status, ...patch };
+  listeners.forEach((l) => l());
+}
+
+// For useSyncExternalStore
+export function subscribeSaveStatus(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getSaveStatus(): SaveStatus {
+  return status;
+}
+
+export async function initStorage() {
   try {
-    const s = localStorage.getItem(KEY_INDEX);
-    return s ? (JSON.parse(s) as EventMeta[]) : [];
+    adapter = await openStorageAdapter(isDataKey);
+    const all = await adapter.readAll("liftwin:");
+    cache = new Map([...all].filter(([key]) => isDataKey(key)));
   } catch {
-    return [];
+    // nothing readable; start empty on localStorage so the app still opens
+    adapter = localStorageAdapter();
   }
+  upgradeStored();
+  setStatus({ backend: adapter.backend });
 }
 
-export function saveIndex(list: EventMeta[]) {
+async function track(key: string, write: Promise<void>): Promise<boolean> {
+  setStatus({ pending: status.pending + 1 });
   try {
-    localStorage.setItem(KEY_INDEX, JSON.stringify(list));
-  } catch {}
+    await write;
+    failed.delete(key);
+    setStatus({ pending: status.pending - 1, lastSavedAt: Date.now(), error: failed.size ? status.error : null });
+    return true;
+  } catch (e) {
+    failed.add(key);
+    setStatus({ pending: status.pending - 1, error: e instanceof StorageWriteError ? e : new StorageWriteError(e) });
+    return false;
+  }
+}
+
+function put(key: string, value: string): Promise<boolean> {
+  cache.set(key, value);
+  announce({ key, value });
+  return track(key, adapter.write(key, value));
+}
+
+function drop(key: string): Promise<boolean> {
+  cache.delete(key);
+  announce({ key, value: null });
+  return track(key, adapter.remove(key));
+}
+
+// ===== Other tabs =====
+// Each tab keeps its own cache, so writes are broadcast with their value and applied on arrival.
+
+type StorageChange = { key: string; value: string | null }; // null = removed
+
+const channel = typeof BroadcastChannel === "undefined" ? null : new BroadcastChannel("liftwin:storage");
+const remoteListeners = new Set<() => void>();
+
+function announce(change: StorageChange) {
+  channel?.postMessage(change);
+}
+
+if (channel) {
+  channel.onmessage = (e: MessageEvent<StorageChange>) => {
+    const { key, value } = e.data;
+    if (!isDataKey(key)) return;
+    failed.delete(key); // a retry would put back the older copy
+    if (value === null) cache.delete(key);
+    else cache.set(key, value);
+    remoteListeners.forEach((l) => l());
+  };
+}
+
+// Called after another tab changed stored data, e.g. to reload the event list
+export function subscribeRemoteWrites(listener: () => void) {
+  remoteListeners.add(listener);
+  return () => {
+    remoteListeners.delete(listener);
+  };
+}
+
+// Writes every record whose last save failed again, e.g. after the user frees up space
+export function retryFailedSaves() {
+  [...failed].forEach((key) => {
+    const value = cache.get(key);
+    if (value === undefined) drop(key);
+    else put(key, value);
+  });
+}
+
+export async function getStorageUsage(): Promise<{ used: number; quota: number | null }> {
+  try {
+    return await adapter.usage();
+  } catch {
+    return { used: 0, quota: null };
+  }
+}
+
+function readJson<T>(key: string, fallback: T): T {
+  const s = cache.get(key);
+  if (!s) return fallback;
+  try {
+    return JSON.parse(s) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+// ===== Events =====
+// Index and events are stored as { schema, data } (see schema.ts). The loaders only read, since
+// views call them while rendering; writing older records back upgraded and moving unreadable ones
+// to the quarantine list happens once, in initStorage().
+
+export function loadIndex(): EventMeta[] {
+  const s = cache.get(KEY_INDEX);
+  if (!s) return [];
+  try {
+    return upgradeIndex(unwrap(JSON.parse(s)));
+  } catch (e) {
+    if (e instanceof SchemaError && e.newer) return [];
+    // The events themselves are fine; rebuild the list from what's stored
+    return rebuildIndex();
+  }
+}
+
+export function saveIndex(list: EventMeta[]) {
+  put(KEY_INDEX, JSON.stringify(wrap(list)));
+}
+
+function rebuildIndex(): EventMeta[] {
+  const now = Date.now();
+  return [...cache.keys()]
+    .filter((key) => key.startsWith(KEY_EVENT_PREFIX))
+    .map((key) => {
+      const eid = key.slice(KEY_EVENT_PREFIX.length);
+      return { eid, title: loadEvent(eid)?.title, createdAt: now, updatedAt: now };
+    })
+    .filter((m): m is EventMeta => m.title !== undefined);
 }
 
 export function loadEvent(eid: EID): State | null {
+  const s = cache.get(eventKey(eid));
+  if (!s) return null;
   try {
-    const s = localStorage.getItem(eventKey(eid));
-    return s ? (JSON.parse(s) as State) : null;
+    return upgradeState(unwrap(JSON.parse(s)));
   } catch {
     return null;
   }
 }
 
-export function saveEvent(eid: EID, state: State) {
+// Events first, so a rebuilt index leaves out the ones that were set aside
+function upgradeStored() {
+  [...cache.keys()]
+    .filter((key) => key.startsWith(KEY_EVENT_PREFIX))
+    .forEach((key) => {
+      const s = cache.get(key)!;
+      try {
+        const stored = unwrap(JSON.parse(s));
+        const state = upgradeState(stored);
+        if (stored.schema < SCHEMA_VERSION) put(key, JSON.stringify(wrap(state)));
+      } catch (e) {
+        if (!(e instanceof SchemaError && e.newer)) quarantine(key, s, e);
+      }
+    });
+
+  upgradeList(KEY_SEASONS, upgradeSeasons);
+  upgradeList(KEY_ROSTER, upgradeRoster);
+
+  const s = cache.get(KEY_INDEX);
+  if (!s) return;
   try {
-    localStorage.setItem(eventKey(eid), JSON.stringify(state));
-  } catch {}
+    const stored = unwrap(JSON.parse(s));
+    const list = upgradeIndex(stored);
+    if (stored.schema < SCHEMA_VERSION) saveIndex(list);
+  } catch (e) {
+    if (e instanceof SchemaError && e.newer) return;
+    quarantine(KEY_INDEX, s, e);
+    saveIndex(rebuildIndex());
+  }
+}
+
+function upgradeList(key: string, upgrade: (stored: Stored<unknown>) => unknown[]) {
+  const s = cache.get(key);
+  if (!s) return;
+  try {
+    const stored = unwrap(JSON.parse(s));
+    const list = upgrade(stored);
+    if (stored.schema < SCHEMA_VERSION) put(key, JSON.stringify(wrap(list)));
+  } catch (e) {
+    if (!(e instanceof SchemaError && e.newer)) quarantine(key, s, e);
+  }
+}
+
+// Resolves false when the write didn't reach storage; the save status says why
+export function saveEvent(eid: EID, state: State): Promise<boolean> {
+  return put(eventKey(eid), JSON.stringify(wrap(state)));
 }
 
 export function deleteEvent(eid: EID) {
+  drop(eventKey(eid));
+  drop(`${KEY_HISTORY_PREFIX}${eid}`);
+}
+
+// Undo history is a convenience: anything that doesn't read back cleanly is just dropped
+export function loadHistory(eid: EID): UndoHistory {
+  const s = cache.get(`${KEY_HISTORY_PREFIX}${eid}`);
+  if (!s) return EMPTY_HISTORY;
   try {
-    localStorage.removeItem(eventKey(eid));
-  } catch {}
+    const { schema, data } = unwrap(JSON.parse(s)) as Stored<UndoHistory>;
+    const upgrade = (list: unknown[]) => list.map((state) => upgradeState({ schema, data: state }));
+    return { past: upgrade(data.past), future: upgrade(data.future) };
+  } catch {
+    return EMPTY_HISTORY;
+  }
+}
+
+export function saveHistory(eid: EID, history: UndoHistory) {
+  const key = `${KEY_HISTORY_PREFIX}${eid}`;
+  if (!history.past.length && !history.future.length) {
+    if (cache.has(key)) drop(key);
+    return;
+  }
+  put(key, JSON.stringify(wrap(history)));
+}
+
+// Seasons and the roster use the same envelope; upgradeStored() sets aside lists that can't be read
+function loadList<T>(key: string, upgrade: (stored: Stored<unknown>) => T[]): T[] {
+  const s = cache.get(key);
+  if (!s) return [];
+  try {
+    return upgrade(unwrap(JSON.parse(s)));
+  } catch {
+    return [];
+  }
+}
+
+export function loadSeasons(): Season[] {
+  return loadList(KEY_SEASONS, upgradeSeasons);
+}
+
+export function saveSeasons(list: Season[]) {
+  put(KEY_SEASONS, JSON.stringify(wrap(list)));
+}
+
+export function loadRoster(): RosterAthlete[] {
+  return loadList(KEY_ROSTER, upgradeRoster);
+}
+
+export function saveRoster(list: RosterAthlete[]) {
+  put(KEY_ROSTER, JSON.stringify(wrap(list)));
+}
+
+// ===== Quarantine =====
+
+export interface QuarantinedRecord {
+  key: string; // where it was stored
+  raw: string; // the original text, untouched
+  reason: string;
+  at: number; // epoch ms
+}
+
+export function loadQuarantine(): QuarantinedRecord[] {
+  const list = readJson<unknown>(KEY_QUARANTINE, []);
+  return Array.isArray(list)
+    ? list.filter((r): r is QuarantinedRecord => typeof r?.key === "string" && typeof r?.raw === "string")
+    : [];
+}
+
+export function clearQuarantine() {
+  drop(KEY_QUARANTINE);
+}
+
+// Moves an unreadable record aside so it can't crash the app, keeping the raw text for recovery.
+// The stored original is only removed once the copy has been written.
+function quarantine(key: string, raw: string, error: unknown) {
+  const reason = error instanceof Error ? error.message : String(error);
+  const list = loadQuarantine();
+  list.push({ key, raw, reason, at: Date.now() });
+  cache.delete(key);
+  put(KEY_QUARANTINE, JSON.stringify(list)).then((ok) => ok && drop(key));
 }
 
+// ===== Preferences (localStorage) =====
+
 export function setLastOpen(eid: EID | null) {
   try {
     if (eid) localStorage.setItem(KEY_LAST_OPEN, eid);
@@ -74,3 +385,36 @@ export function setTheme(theme: "light" | "dark") {
     localStorage.setItem(KEY_THEME, theme);
   } catch {}
 }
+
+export function getUnits(): WeightUnit {
+  try {
+    return localStorage.getItem(KEY_UNITS) === "lb" ? "lb" : "kg";
+  } catch {
+    return "kg";
+  }
+}
+
+export function setUnits(units: WeightUnit) {
+  try {
+    localStorage.setItem(KEY_UNITS, units);
+  } catch {
+    // storage unavailable; the preference lasts for this session only
+  }
+}
+
+export function getSyncUrl(): string {
+  try {
+    return localStorage.getItem(KEY_SYNC_URL) ?? "";
+  } catch {
+    return "";
+  }
+}
+
+export function setSyncUrl(url: string) {
+  try {
+    if (url) localStorage.setItem(KEY_SYNC_URL, url);
+    else localStorage.removeItem(KEY_SYNC_URL);
+  } catch {
+    // storage unavailable; the relay address lasts for this session only
+  }
+}
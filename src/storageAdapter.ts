@@ -0,0 +1,149 @@
+// Where event data actually lives. storage.ts keeps an in-memory copy and writes through one of these.
+
+export type StorageBackend = "indexedDB" | "localStorage";
+
+export interface StorageAdapter {
+  backend: StorageBackend;
+  readAll(prefix: string): Promise<Map<string, string>>;
+  write(key: string, value: string): Promise<void>;
+  remove(key: string): Promise<void>;
+  usage(): Promise<{ used: number; quota: number | null }>; // bytes
+}
+
+export class StorageWriteError extends Error {
+  quota: boolean; // the browser refused because storage is full
+  constructor(cause: unknown) {
+    const quota = isQuotaError(cause);
+    super(quota ? "Storage is full" : cause instanceof Error ? cause.message : "Storage write failed");
+    this.name = "StorageWriteError";
+    this.quota = quota;
+  }
+}
+
+function isQuotaError(e: unknown): boolean {
+  return e instanceof DOMException && (e.name === "QuotaExceededError" || e.name === "NS_ERROR_DOM_QUOTA_REACHED");
+}
+
+// Browsers give localStorage about 5 MB, counted in UTF-16 code units
+const LOCAL_STORAGE_QUOTA = 5 * 1024 * 1024;
+
+export function localStorageAdapter(): StorageAdapter {
+  return {
+    backend: "localStorage",
+    async readAll(prefix) {
+      const out = new Map<string, string>();
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i);
+        const value = key?.startsWith(prefix) ? localStorage.getItem(key) : null;
+        if (key && value !== null) out.set(key, value);
+      }
+      return out;
+    },
+    async write(key, value) {
+      try {
+        localStorage.setItem(key, value);
+      } catch (e) {
+        throw new StorageWriteError(e);
+      }
+    },
+    async remove(key) {
+      localStorage.removeItem(key);
+    },
+    async usage() {
+      let used = 0;
+      for (let i = 0; i < localStorage.length; i++) {
+        const key = localStorage.key(i) ?? "";
+        used += (key.length + (localStorage.getItem(key)?.length ?? 0)) * 2;
+      }
+      return { used, quota: LOCAL_STORAGE_QUOTA };
+    },
+  };
+}
+
+// ===== IndexedDB =====
+
+const DB_NAME = "liftwin";
+const STORE = "kv";
+const MIGRATED_FLAG = "liftwin:migratedFromLocalStorage";
+
+function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transaction(db: IDBDatabase, mode: IDBTransactionMode, run: (store: IDBObjectStore) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(STORE, mode);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    run(tx.objectStore(STORE));
+  });
+}
+
+// `migrate` picks the localStorage keys that move over on first open
+export async function openIndexedDBAdapter(migrate: (key: string) => boolean): Promise<StorageAdapter> {
+  const open = indexedDB.open(DB_NAME, 1);
+  open.onupgradeneeded = () => open.result.createObjectStore(STORE);
+  const db = await request(open);
+
+  const adapter: StorageAdapter = {
+    backend: "indexedDB",
+    async readAll(prefix) {
+      const out = new Map<string, string>();
+      await transaction(db, "readonly", (store) => {
+        const cursor = store.openCursor(IDBKeyRange.bound(prefix, prefix + "\uffff"));
+        cursor.onsuccess = () => {
+          const c = cursor.result;
+          if (!c) return;
+          out.set(String(c.key), String(c.value));
+          c.continue();
+        };
+      });
+      return out;
+    },
+    async write(key, value) {
+      try {
+        await transaction(db, "readwrite", (store) => store.put(value, key));
+      } catch (e) {
+        throw new StorageWriteError(e);
+      }
+    },
+    async remove(key) {
+      await transaction(db, "readwrite", (store) => store.delete(key));
+    },
+    async usage() {
+      const est = await navigator.storage?.estimate?.();
+      return { used: est?.usage ?? 0, quota: est?.quota ?? null };
+    },
+  };
+
+  await migrateFromLocalStorage(db, migrate);
+  return adapter;
+}
+
+// One-time copy of everything saved before the IndexedDB backend existed. The localStorage copies
+// are only removed once the IndexedDB transaction has committed.
+async function migrateFromLocalStorage(db: IDBDatabase, migrate: (key: string) => boolean) {
+  if (await request(db.transaction(STORE).objectStore(STORE).get(MIGRATED_FLAG))) return;
+  const old = [...(await localStorageAdapter().readAll("")).entries()].filter(([key]) => migrate(key));
+  await transaction(db, "readwrite", (store) => {
+    old.forEach(([key, value]) => store.put(value, key));
+    store.put(String(Date.now()), MIGRATED_FLAG);
+  });
+  old.forEach(([key]) => localStorage.removeItem(key));
+}
+
+// IndexedDB where the browser has it, otherwise localStorage (private windows in some browsers)
+export async function openStorageAdapter(migrate: (key: string) => boolean): Promise<StorageAdapter> {
+  if (typeof indexedDB !== "undefined") {
+    try {
+      return await openIndexedDBAdapter(migrate);
+    } catch {
+      // blocked or unavailable; fall back below
+    }
+  }
+  return localStorageAdapter();
+}
@@ -0,0 +1,189 @@
+import type { Athlete, EID, State } from "./types";
+import { diffEvents, entryTime, setAthleteField, setEntryTime } from "./merge";
+import type { SyncTransport, TransportKind, TransportStatus } from "./syncTransport";
+
+// Live sync between copies of one event. Edits travel as per-field operations, so two people
+// editing different athletes (or different fields of one athlete) never overwrite each other.
+// When two edits hit the same field, the later stamp wins on every device.
+
+export type SyncOp =
+  | { kind: "setting"; key: string; value: unknown } // any State field except athletes
+  | { kind: "field"; athleteId: string; field: string; value: unknown; at?: number } // see setAthleteField; at = entry time
+  | { kind: "addAthlete"; athlete: Athlete }
+  | { kind: "removeAthlete"; athleteId: string };
+
+// Hybrid clock: wall time, bumped past anything already seen; client id breaks ties
+export interface Stamp {
+  t: number;
+  c: string;
+}
+
+export interface StampedOp {
+  op: SyncOp;
+  stamp: Stamp;
+}
+
+export type SyncMessage =
+  | { type: "ops"; eid: EID; from: string; ops: StampedOp[] }
+  | { type: "hello"; eid: EID; from: string } // a copy joined; peers answer with a snapshot
+  | { type: "snapshot"; eid: EID; from: string; to: string; state: State }
+  | { type: "bye"; eid: EID; from: string };
+
+// The unit that last-writer-wins applies to
+function opKey(op: SyncOp): string {
+  if (op.kind === "setting") return `event:${op.key}`;
+  if (op.kind === "field") return `${op.athleteId}:${op.field}`;
+  return op.kind === "addAthlete" ? op.athlete.id : op.athleteId;
+}
+
+const newer = (a: Stamp, b: Stamp | undefined) => !b || a.t > b.t || (a.t === b.t && a.c > b.c);
+
+// The operations that turn `prev` into `next`
+export function diffToOps(prev: State, next: State): SyncOp[] {
+  const diff = diffEvents(prev, next);
+  const ops: SyncOp[] = diff.settings.map((f) => ({ kind: "setting", key: f.key.slice("event:".length), value: f.incoming }));
+  diff.athletes.forEach((a) => {
+    if (a.status === "added") ops.push({ kind: "addAthlete", athlete: next.athletes.find((x) => x.id === a.id)! });
+    else if (a.status === "removed") ops.push({ kind: "removeAthlete", athleteId: a.id });
+    else {
+      const b = next.athletes.find((x) => x.id === a.id)!;
+      a.fields.forEach((f) => {
+        const field = f.key.slice(a.id.length + 1);
+        ops.push({ kind: "field", athleteId: a.id, field, value: f.incoming, at: entryTime(b, field) });
+      });
+    }
+  });
+  return ops;
+}
+
+// Pure: callers decide beforehand which ops are new enough to apply
+export function applyOps(state: State, ops: SyncOp[]): State {
+  return ops.reduce<State>((s, op) => {
+    switch (op.kind) {
+      case "setting":
+        return { ...s, [op.key]: op.value };
+      case "field":
+        return {
+          ...s,
+          athletes: s.athletes.map((a) =>
+            a.id === op.athleteId ? setEntryTime(setAthleteField(a, op.field, op.value), op.field, op.at) : a
+          ),
+        };
+      case "addAthlete":
+        return s.athletes.some((a) => a.id === op.athlete.id) ? s : { ...s, athletes: [...s.athletes, op.athlete] };
+      case "removeAthlete":
+        return { ...s, athletes: s.athletes.filter((a) => a.id !== op.athleteId) };
+    }
+  }, state);
+}
+
+export interface SyncStatus {
+  transports: Partial<Record<TransportKind, TransportStatus>>;
+  peers: number; // other copies heard from since connecting
+}
+
+export interface SyncSession {
+  publish(prev: State, next: State): void;
+  addTransport(t: SyncTransport): void;
+  removeTransport(kind: TransportKind): void;
+  status(): SyncStatus;
+  close(): void;
+}
+
+export function createSyncSession({
+  eid,
+  getState,
+  onRemoteOps,
+  onSnapshot,
+  onStatus,
+  listenOnly = false,
+}: {
+  eid: EID;
+  getState: () => State; // current local state, sent to copies that join
+  onRemoteOps: (ops: SyncOp[]) => void; // already filtered to ops that win
+  onSnapshot: (state: State) => void; // another copy's full state, right after connecting
+  onStatus: (status: SyncStatus) => void;
+  listenOnly?: boolean; // a read-only copy: it never answers with its own snapshot
+}): SyncSession {
+  const self = crypto.randomUUID();
+  const clock = new Map<string, Stamp>();
+  const transports = new Map<TransportKind, SyncTransport>();
+  const peers = new Set<string>();
+  let status: SyncStatus = { transports: {}, peers: 0 };
+  let lastT = 0;
+
+  const setStatus = (patch: Partial<SyncStatus>) => {
+    status = { ...status, ...patch };
+    onStatus(status);
+  };
+  const send = (message: SyncMessage) => transports.forEach((t) => t.send(message));
+  const stamp = (): Stamp => {
+    lastT = Math.max(Date.now(), lastT + 1);
+    return { t: lastT, c: self };
+  };
+
+  function receive(raw: unknown) {
+    const m = raw as SyncMessage;
+    if (!m || m.eid !== eid || m.from === self) return;
+    if (m.type === "bye") {
+      peers.delete(m.from);
+      setStatus({ peers: peers.size });
+      return;
+    }
+    if (!peers.has(m.from)) {
+      peers.add(m.from);
+      setStatus({ peers: peers.size });
+    }
+    if (m.type === "hello") {
+      if (listenOnly) return;
+      send({ type: "snapshot", eid, from: self, to: m.from, state: getState() });
+    } else if (m.type === "snapshot") {
+      if (m.to === self) onSnapshot(m.state);
+    } else if (m.type === "ops") {
+      const accepted = m.ops.filter(({ op, stamp }) => {
+        lastT = Math.max(lastT, stamp.t);
+        const key = opKey(op);
+        if (!newer(stamp, clock.get(key))) return false;
+        clock.set(key, stamp);
+        return true;
+      });
+      if (accepted.length) onRemoteOps(accepted.map((s) => s.op));
+    }
+  }
+
+  function removeTransport(kind: TransportKind) {
+    const t = transports.get(kind);
+    if (!t) return;
+    t.send({ type: "bye", eid, from: self } satisfies SyncMessage);
+    t.close();
+    transports.delete(kind);
+    const rest = { ...status.transports };
+    delete rest[kind];
+    setStatus({ transports: rest });
+  }
+
+  return {
+    publish(prev, next) {
+      const ops = diffToOps(prev, next).map((op) => {
+        const s = stamp();
+        clock.set(opKey(op), s);
+        return { op, stamp: s };
+      });
+      if (ops.length) send({ type: "ops", eid, from: self, ops });
+    },
+    addTransport(t) {
+      transports.get(t.kind)?.close();
+      transports.set(t.kind, t);
+      t.onMessage(receive);
+      t.onStatus((s) => {
+        setStatus({ transports: { ...status.transports, [t.kind]: s } });
+        if (s === "connected") t.send({ type: "hello", eid, from: self } satisfies SyncMessage);
+      });
+    },
+    removeTransport,
+    status: () => status,
+    close() {
+      [...transports.keys()].forEach(removeTransport);
+    },
+  };
+}
@@ -0,0 +1,94 @@
+import type { EID } from "./types";
+
+// How sync messages travel between copies of an event. A transport only moves JSON for one event;
+// ordering and conflict handling live in sync.ts.
+
+export type TransportKind = "tab" | "relay";
+export type TransportStatus = "connecting" | "connected" | "offline";
+
+export interface SyncTransport {
+  kind: TransportKind;
+  send(message: unknown): void;
+  onMessage(listener: (message: unknown) => void): void;
+  onStatus(listener: (status: TransportStatus) => void): void;
+  close(): void;
+}
+
+// Other tabs of this browser, via BroadcastChannel
+export function broadcastChannelTransport(eid: EID): SyncTransport | null {
+  if (typeof BroadcastChannel === "undefined") return null;
+  const channel = new BroadcastChannel(`liftwin:sync:${eid}`);
+  let messageListener: (message: unknown) => void = () => {};
+  channel.onmessage = (e) => messageListener(e.data);
+  return {
+    kind: "tab",
+    send: (message) => channel.postMessage(message),
+    onMessage: (listener) => (messageListener = listener),
+    onStatus: (listener) => listener("connected"),
+    close: () => channel.close(),
+  };
+}
+
+// Other devices, through the relay in server/relay.js. Reconnects with backoff until closed.
+export function webSocketTransport(url: string, eid: EID): SyncTransport {
+  let socket: WebSocket | null = null;
+  let closed = false;
+  let retry = 0;
+  let timer: number | undefined;
+  let messageListener: (message: unknown) => void = () => {};
+  let statusListener: (status: TransportStatus) => void = () => {};
+  const queue: string[] = []; // sent while disconnected; flushed on reconnect
+
+  const roomUrl = () => {
+    const u = new URL(url);
+    u.searchParams.set("room", eid);
+    return u.toString();
+  };
+
+  function connect() {
+    statusListener("connecting");
+    try {
+      socket = new WebSocket(roomUrl());
+    } catch {
+      statusListener("offline");
+      return;
+    }
+    socket.onopen = () => {
+      retry = 0;
+      statusListener("connected");
+      queue.splice(0).forEach((m) => socket?.send(m));
+    };
+    socket.onmessage = (e) => {
+      try {
+        messageListener(JSON.parse(String(e.data)));
+      } catch {
+        // not ours; ignore
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      statusListener("offline");
+      timer = window.setTimeout(connect, Math.min(10_000, 500 * 2 ** retry++));
+    };
+  }
+
+  // Let the caller attach listeners before the first status arrives
+  timer = window.setTimeout(connect, 0);
+
+  return {
+    kind: "relay",
+    send(message) {
+      const text = JSON.stringify(message);
+      if (socket?.readyState === WebSocket.OPEN) socket.send(text);
+      else if (queue.push(text) > 1000) queue.shift();
+    },
+    onMessage: (listener) => (messageListener = listener),
+    onStatus: (listener) => (statusListener = listener),
+    close() {
+      closed = true;
+      window.clearTimeout(timer);
+      socket?.close();
+    },
+  };
+}
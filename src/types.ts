@@ -9,13 +9,85 @@ export interface Athlete {
   squat: number | null; // kg
   bench: number | null; // kg
   deadlift: number | null; // kg
-  runTime: string; // hh:mm:ss | mm:ss | ss
+  results: Record<string, string>; // raw entry per non-lift discipline id (time hh:mm:ss | mm:ss | ss, reps, metres…)
+  rosterId?: string; // roster profile this entrant was added from
+  attempts?: Partial<Record<Lift, Attempt[]>>; // meet-style attempts, up to 3 per lift
+  achievedAt?: Record<string, number>; // epoch ms each lift / result (by lift or discipline id) was last entered
+}
+
+export type AttemptStatus = "pending" | "good" | "nolift";
+
+export interface Attempt {
+  weight: number | null; // kg requested
+  status: AttemptStatus;
+}
+
+// Persistent athlete profile shared across events
+export interface RosterAthlete {
+  id: string;
+  name: string;
+  sex: "M" | "F" | "X";
+  age: number | null;
+  bodyweight: number | null; // kg
+  updatedAt: number; // epoch ms
+}
+
+export type Lift = "squat" | "bench" | "deadlift";
+export type DisciplineKind = "lifts" | "weight" | "time" | "reps" | "distance";
+// How entries become a ranking score:
+// "strength" = total of the chosen lifts through the event's strength formula (kind "lifts")
+// "run5k"    = time through the event's 5k run scoring (kind "time")
+// "raw"      = the entered value itself, ranked by `better`
+export type DisciplineScoring = "strength" | "run5k" | "raw";
+
+export interface Discipline {
+  id: string;
+  name: string;
+  kind: DisciplineKind;
+  unit: string; // display only
+  better: "higher" | "lower";
+  scoring: DisciplineScoring;
+  lifts?: Lift[]; // kind "lifts": which lifts make up the total
+  multiplier?: number; // weighting of this discipline's points in the leaderboard; missing = 1
+}
+
+export type StrengthFormula = "DOTS" | "Wilks" | "IPFGL" | "Glossbrenner" | "Total" | "Ratio";
+
+export type RunScoring = "Time" | "AgeGraded";
+export type WeightUnit = "kg" | "lb";
+
+// How athletes level on score are separated, in each discipline and overall:
+// "shared"     = share the place and split the points of the places covered
+// "sharedFull" = share the place and each get its full points
+// "bodyweight" = lighter athlete wins
+// "earlier"    = result entered first wins
+// "countback"  = overall: better best discipline placing wins, then the next best
+export type TieBreak = "shared" | "sharedFull" | "bodyweight" | "earlier" | "countback";
+
+export type ClassScheme = "none" | "IPF" | "custom";
+
+export interface DivisionConfig {
+  bySex: boolean;
+  ageClasses: ClassScheme;
+  ageBounds: number[]; // custom: lower age bounds, e.g. [40, 50] → <40, 40–49, 50+
+  weightClasses: ClassScheme;
+  weightBounds: number[]; // custom: upper bodyweight limits in kg, e.g. [63, 83] → -63, -83, 83+
+  allocateWithin: boolean; // re-rank and allocate points inside each division instead of reusing overall points
 }
 
 export interface State {
   title: string;
   pointsPreset: "F1" | "Simple" | "Custom";
   pointsCustom: number[];
+  disciplines: Discipline[];
+  strengthFormula?: StrengthFormula; // missing on older events = DOTS
+  ageAdjust?: boolean; // apply masters/junior age coefficients to the strength score
+  runScoring?: RunScoring; // missing on older events = Time
+  attemptsMode?: boolean; // lifts are entered as judged attempts; the best good one is the result
+  units?: WeightUnit; // display/entry unit for this event; missing = global preference. Stored values stay kg
+  divisions?: DivisionConfig; // missing = overall leaderboard only
+  tieBreak?: TieBreak; // missing = shared
+  participationPoints?: number; // minimum points per discipline for anyone with a result; missing = none
   athletes: Athlete[];
 }
 
@@ -25,3 +97,11 @@ export interface EventMeta {
   createdAt: number; // epoch ms
   updatedAt: number; // epoch ms
 }
+
+export interface Season {
+  id: string;
+  name: string;
+  eids: EID[];
+  bestOf: number | null; // count only each athlete's best N event totals; null = sum all
+  createdAt: number; // epoch ms
+}
@@ -0,0 +1,55 @@
+import type { State } from "./types";
+
+// Undo/redo for one event: whole-state snapshots, newest last
+export const UNDO_LIMIT = 50;
+// Edits closer together than this (typing a name, a time…) undo as one step
+export const COALESCE_MS = 1000;
+
+export interface UndoHistory {
+  past: State[];
+  future: State[];
+}
+
+export interface EditSession {
+  state: State;
+  history: UndoHistory;
+  lastEditAt: number; // epoch ms; 0 = next edit always starts a new step
+}
+
+export const EMPTY_HISTORY: UndoHistory = { past: [], future: [] };
+
+export function startSession(state: State, history: UndoHistory = EMPTY_HISTORY): EditSession {
+  return { state, history, lastEditAt: 0 };
+}
+
+// Adding or removing athletes or disciplines is always its own step, however quickly it follows typing
+function sameShape(a: State, b: State) {
+  return a.athletes.length === b.athletes.length && a.disciplines.length === b.disciplines.length;
+}
+
+export function recordEdit(session: EditSession, next: State, now: number): EditSession {
+  if (next === session.state) return session;
+  const coalesce = now - session.lastEditAt < COALESCE_MS && sameShape(session.state, next) && session.history.past.length > 0;
+  const past = coalesce ? session.history.past : [...session.history.past, session.state].slice(-UNDO_LIMIT);
+  return { state: next, history: { past, future: [] }, lastEditAt: now };
+}
+
+export function undo(session: EditSession): EditSession {
+  const { past, future } = session.history;
+  if (!past.length) return session;
+  return {
+    state: past[past.length - 1],
+    history: { past: past.slice(0, -1), future: [session.state, ...future] },
+    lastEditAt: 0,
+  };
+}
+
+export function redo(session: EditSession): EditSession {
+  const { past, future } = session.history;
+  if (!future.length) return session;
+  return {
+    state: future[0],
+    history: { past: [...past, session.state], future: future.slice(1) },
+    lastEditAt: 0,
+  };
+}
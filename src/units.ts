@@ -0,0 +1,32 @@
+import type { WeightUnit } from "./types";
+
+// Everything is stored and scored in kg; pounds only exist at the input/output edge
+export const LB_PER_KG = 2.20462262185;
+
+// Smallest jump a bar can make: 1.25 kg plates a side, or 2.5 lb plates a side
+export const PLATE_INCREMENT: Record<WeightUnit, number> = { kg: 2.5, lb: 5 };
+
+export function toDisplay(kg: number, unit: WeightUnit): number {
+  return unit === "lb" ? kg * LB_PER_KG : kg;
+}
+
+export function fromDisplay(value: number, unit: WeightUnit): number {
+  return unit === "lb" ? value / LB_PER_KG : value;
+}
+
+// Rounds to the nearest loadable bar weight in the given unit, returned in kg
+export function roundToPlates(kg: number, unit: WeightUnit): number {
+  const step = PLATE_INCREMENT[unit];
+  return fromDisplay(Math.round(toDisplay(kg, unit) / step) * step, unit);
+}
+
+export function formatWeight(kg: number | null, unit: WeightUnit, withUnit = true): string {
+  if (kg === null) return "—";
+  const n = String(Number(toDisplay(kg, unit).toFixed(unit === "lb" ? 1 : 2)));
+  return withUnit ? `${n} ${unit}` : n;
+}
+
+// "100 kg / 220.5 lb", for tooltips
+export function formatBothUnits(kg: number | null): string {
+  return kg === null ? "—" : `${formatWeight(kg, "kg")} / ${formatWeight(kg, "lb")}`;
+}
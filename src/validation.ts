@@ -0,0 +1,106 @@
+import type { Athlete, Discipline, Lift, State, WeightUnit } from "./types";
+import { LIFT_LABELS, liftsInUse } from "./disciplines";
+import { STRENGTH_FORMULAS, formatSeconds, parseResult, type ScoringContext } from "./scoring";
+import { formatWeight } from "./units";
+
+// Checks on what was typed into the Entrants table. Errors are entries that can't be read at all;
+// warnings are readable but unlikely (a 900 kg bench, a 5 kg bodyweight) or won't count as expected.
+
+export type IssueSeverity = "error" | "warning";
+
+export interface FieldIssue {
+  athleteId: string;
+  field: string; // "name" | "age" | "bodyweight" | Lift | "results.<discipline id>", as in merge.ts
+  severity: IssueSeverity;
+  message: string;
+}
+
+// Plausible ranges; lifts are in kg and sit a little above the all-time records
+const AGE_RANGE: [number, number] = [10, 100];
+const BODYWEIGHT_RANGE: [number, number] = [30, 250];
+const LIFT_MAX: Record<Lift, number> = { squat: 520, bench: 400, deadlift: 510 };
+const RUN_5K_RANGE: [number, number] = [12 * 60, 2 * 3600]; // seconds
+
+// Formulas that read bodyweight and need sex M or F
+const NEEDS_SEX = new Set(["DOTS", "Wilks", "IPFGL", "Glossbrenner"]);
+
+function resultIssue(d: Discipline, text: string): Omit<FieldIssue, "athleteId" | "field"> | null {
+  if (!text.trim()) return null;
+  const value = parseResult(d, text);
+  if (value === null) {
+    return d.kind === "time"
+      ? { severity: "error", message: `“${text}” isn’t a time. Use mm:ss or hh:mm:ss.` }
+      : { severity: "error", message: `“${text}” isn’t a number.` };
+  }
+  if (value < 0 || (d.kind === "time" && value === 0)) return { severity: "error", message: `${d.name} must be more than 0.` };
+  if (d.scoring === "run5k" && (value < RUN_5K_RANGE[0] || value > RUN_5K_RANGE[1])) {
+    return { severity: "warning", message: `A 5k in ${formatSeconds(value)} looks unlikely.` };
+  }
+  return null;
+}
+
+export function validateAthlete(a: Athlete, disciplines: Discipline[], unit: WeightUnit): FieldIssue[] {
+  const issues: FieldIssue[] = [];
+  const add = (field: string, severity: IssueSeverity, message: string) => issues.push({ athleteId: a.id, field, severity, message });
+
+  if (!a.name.trim()) add("name", "warning", "No name.");
+  if (a.age !== null) {
+    if (a.age < 0) add("age", "error", "Age can’t be negative.");
+    else if (a.age < AGE_RANGE[0] || a.age > AGE_RANGE[1]) add("age", "warning", `Age ${a.age} looks unlikely.`);
+  }
+  if (a.bodyweight !== null) {
+    if (a.bodyweight <= 0) add("bodyweight", "error", "Bodyweight must be more than 0.");
+    else if (a.bodyweight < BODYWEIGHT_RANGE[0] || a.bodyweight > BODYWEIGHT_RANGE[1]) {
+      add("bodyweight", "warning", `A bodyweight of ${formatWeight(a.bodyweight, unit)} looks unlikely.`);
+    }
+  }
+  liftsInUse(disciplines).forEach((l) => {
+    const kg = a[l];
+    if (kg === null) return;
+    if (kg < 0) add(l, "error", `${LIFT_LABELS[l]} can’t be negative.`);
+    else if (kg > LIFT_MAX[l]) add(l, "warning", `A ${formatWeight(kg, unit)} ${LIFT_LABELS[l].toLowerCase()} is past the all-time record.`);
+  });
+  // A total with a lift missing still scores, just lower than it should
+  disciplines.forEach((d) => {
+    if (d.kind !== "lifts") return;
+    const lifts = d.lifts ?? [];
+    const entered = lifts.filter((l) => a[l] !== null);
+    if (!entered.length || entered.length === lifts.length) return;
+    lifts
+      .filter((l) => a[l] === null)
+      .forEach((l) => {
+        if (issues.some((x) => x.field === l)) return;
+        const counted = entered.map((x) => LIFT_LABELS[x].toLowerCase()).join(" + ");
+        add(l, "warning", `No ${LIFT_LABELS[l].toLowerCase()}, so ${d.name} only counts ${counted}.`);
+      });
+  });
+  disciplines.forEach((d) => {
+    if (d.kind === "lifts") return;
+    const issue = resultIssue(d, a.results[d.id] ?? "");
+    if (issue) add(`results.${d.id}`, issue.severity, issue.message);
+  });
+  return issues;
+}
+
+export function validateEvent(state: State, unit: WeightUnit): FieldIssue[] {
+  return state.athletes.flatMap((a) => validateAthlete(a, state.disciplines, unit));
+}
+
+// Why an athlete has no score in a discipline, for the ranking tables
+export function explainNoScore(d: Discipline, a: Athlete, ctx: ScoringContext): string {
+  if (d.kind === "lifts") {
+    const lifts = d.lifts ?? [];
+    if (lifts.every((l) => a[l] === null)) return "No lifts entered";
+    if (d.scoring !== "strength") return "No total";
+    const formula = STRENGTH_FORMULAS[ctx.strengthFormula].label;
+    if (ctx.strengthFormula !== "Total" && a.bodyweight === null) return `${formula} needs a bodyweight`;
+    if (NEEDS_SEX.has(ctx.strengthFormula) && a.sex === "X") return `${formula} needs sex M or F`;
+    return `${formula} can’t score this bodyweight`;
+  }
+  const text = a.results[d.id] ?? "";
+  if (!text.trim()) return d.kind === "time" ? "No time entered" : "No result entered";
+  const issue = resultIssue(d, text);
+  if (issue?.severity === "error") return issue.message.replace(/\.$/, "");
+  if (d.scoring === "run5k" && ctx.runScoring === "AgeGraded" && a.sex === "X") return "Age grading needs sex M or F";
+  return "Not scored";
+}